@@ -0,0 +1,80 @@
+/**
+ * JSON primitive values.
+ * @example
+ * ```ts
+ * type Value = JsonValue; // string | number | boolean | null | JsonObject | JsonArray
+ * ```
+ */
+export type JsonValue = string | number | boolean | null | JsonObject | JsonArray;
+
+/**
+ * JSON object type.
+ * @example
+ * ```ts
+ * type Obj = JsonObject; // { [key: string]: JsonValue }
+ * ```
+ */
+export type JsonObject = { [key: string]: JsonValue };
+
+/**
+ * JSON array type.
+ * @example
+ * ```ts
+ * type Arr = JsonArray; // JsonValue[]
+ * ```
+ */
+export type JsonArray = JsonValue[];
+
+/**
+ * Type that can be serialized to JSON.
+ * Only function types are removed; use Jsonify for the exact result of JSON.stringify.
+ * @example
+ * ```ts
+ * type User = { name: string; age: number };
+ * type Serializable = Serializable<User>; // { name: string; age: number }
+ * ```
+ */
+export type Serializable<T> = T extends (...args: any[]) => any
+  ? never
+  : T extends object
+    ? { [K in keyof T]: Serializable<T[K]> }
+    : T;
+
+/**
+ * Generic API response wrapper.
+ * Checking `success` does not narrow; use ApiResult for a discriminated union.
+ * @example
+ * ```ts
+ * type Response = ApiResponse<{ id: string; name: string }>;
+ * // { success: boolean; data: { id: string; name: string }; error?: string }
+ * ```
+ */
+export type ApiResponse<T> = {
+  success: boolean;
+  data: T;
+  error?: string;
+};
+
+/**
+ * Generic API error response.
+ * @deprecated Carries no status or type URI; use ProblemDetails and build bodies with problem().
+ * @example
+ * ```ts
+ * type Error = ApiError<{ field: string; message: string }>;
+ * // { success: false; error: string; details?: { field: string; message: string } }
+ * ```
+ */
+export type ApiError<T = Record<string, any>> = {
+  success: false;
+  error: string;
+  details?: T;
+};
+
+/**
+ * HTTP methods.
+ * @example
+ * ```ts
+ * type Method = HttpMethod; // "GET" | "POST" | "PUT" | "PATCH" | "DELETE" | "HEAD" | "OPTIONS"
+ * ```
+ */
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE" | "HEAD" | "OPTIONS";
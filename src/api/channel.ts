@@ -0,0 +1,266 @@
+import { isRecord, isString, type Guard } from "../guard";
+
+/**
+ * Payload types of a realtime channel, keyed by event name.
+ * @example
+ * ```ts
+ * type Events = { "user.joined": { id: string }; msg: { text: string } };
+ * ```
+ */
+export type EventMap = Record<string, unknown>;
+
+/**
+ * Runtime guards for every event of a channel.
+ * @example
+ * ```ts
+ * const guards: ChannelGuards<{ msg: { text: string } }> = { msg: isObjectOf({ text: isString }) };
+ * ```
+ */
+export type ChannelGuards<Events extends EventMap> = {
+  readonly [K in keyof Events]: Guard<Events[K]>;
+};
+
+/**
+ * Union of the messages a channel carries, discriminated by `event`.
+ * @example
+ * ```ts
+ * type Message = ChannelMessage<{ "user.joined": { id: string }; msg: { text: string } }>;
+ * // { event: "user.joined"; data: { id: string } } | { event: "msg"; data: { text: string } }
+ * ```
+ */
+export type ChannelMessage<Events extends EventMap> = {
+  [K in keyof Events & string]: { event: K; data: Events[K] };
+}[keyof Events & string];
+
+/**
+ * Server-Sent Events message: a channel message with the optional `id` and `retry` fields of a frame.
+ * @example
+ * ```ts
+ * const message: SseMessage<{ msg: { text: string } }> = { event: "msg", data: { text: "hi" }, id: "1" };
+ * ```
+ */
+export type SseMessage<Events extends EventMap> = {
+  [K in keyof Events & string]: { event: K; data: Events[K]; id?: string; retry?: number };
+}[keyof Events & string];
+
+/**
+ * Typed realtime channel with codecs for Server-Sent Events and JSON WebSocket messages.
+ * Decoders check the event name and payload, so decoded messages narrow by `event`.
+ * @example
+ * ```ts
+ * const chat: Channel<{ msg: { text: string } }> = defineChannel({ msg: isObjectOf({ text: isString }) });
+ * ```
+ */
+export type Channel<Events extends EventMap> = {
+  readonly events: ChannelGuards<Events>;
+  is: Guard<ChannelMessage<Events>>;
+  sse: {
+    encode: (message: SseMessage<Events>) => string;
+    decode: (stream: ReadableStream<Uint8Array | string>) => ReadableStream<SseMessage<Events>>;
+  };
+  ws: {
+    encode: (message: ChannelMessage<Events>) => string;
+    decode: (data: string | ArrayBuffer | Uint8Array) => ChannelMessage<Events>;
+  };
+};
+
+/**
+ * Event map of a channel.
+ * @example
+ * ```ts
+ * type Events = ChannelEvents<typeof chat>; // { msg: { text: string } }
+ * ```
+ */
+export type ChannelEvents<C> = C extends Channel<infer Events> ? Events : never;
+
+/**
+ * Error thrown when an incoming message has an unknown event name or an invalid payload.
+ * @example
+ * ```ts
+ * try {
+ *   chat.ws.decode('{"event":"nope","data":null}');
+ * } catch (error) {
+ *   if (error instanceof ChannelError) error.event; // "nope"
+ * }
+ * ```
+ */
+export class ChannelError extends Error {
+  readonly event: string | undefined;
+  readonly data: unknown;
+
+  constructor(message: string, event: string | undefined, data: unknown) {
+    super(message);
+    this.name = "ChannelError";
+    this.event = event;
+    this.data = data;
+  }
+}
+
+type SseFrame = { data: string[]; event?: string; id?: string; retry?: number };
+
+const parseJson = (text: string, event?: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new ChannelError(
+      `Invalid message: ${JSON.stringify(text)} is not valid JSON`,
+      event,
+      text,
+    );
+  }
+};
+
+const readField = (frame: SseFrame, line: string): void => {
+  const colon = line.indexOf(":");
+  const field = colon === -1 ? line : line.slice(0, colon);
+  const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+  switch (field) {
+    case "data": {
+      frame.data.push(value);
+      break;
+    }
+    case "event": {
+      frame.event = value;
+      break;
+    }
+    case "id": {
+      frame.id = value;
+      break;
+    }
+    case "retry": {
+      if (/^\d+$/.test(value)) {
+        frame.retry = Number(value);
+      }
+      break;
+    }
+    default: {
+      break;
+    }
+  }
+};
+
+const sseDecoder = <Message>(
+  toMessage: (frame: SseFrame) => Message,
+): TransformStream<Uint8Array | string, Message> => {
+  const text = new TextDecoder();
+  let buffer = "";
+  let frame: SseFrame = { data: [] };
+  return new TransformStream({
+    transform: (chunk, controller) => {
+      buffer += typeof chunk === "string" ? chunk : text.decode(chunk, { stream: true });
+      // A trailing "\r" may be the first half of "\r\n", so it stays in the buffer.
+      const lines = buffer.split(/\r\n|\n|\r(?!$)/);
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        if (line === "") {
+          if (frame.data.length > 0) {
+            controller.enqueue(toMessage(frame));
+          }
+          frame = { data: [] };
+        } else if (!line.startsWith(":")) {
+          readField(frame, line);
+        }
+      }
+    },
+  });
+};
+
+const checkMessage = (
+  guards: Record<string, Guard<unknown>>,
+  event: string,
+  data: unknown,
+): { event: string; data: unknown } => {
+  const guard = Object.hasOwn(guards, event) ? guards[event] : undefined;
+  if (!guard) {
+    throw new ChannelError(`Unknown event "${event}"`, event, data);
+  }
+  if (!guard(data)) {
+    throw new ChannelError(
+      `Invalid data for event "${event}": received ${JSON.stringify(data)}`,
+      event,
+      data,
+    );
+  }
+  return { data, event };
+};
+
+// A line break in a field would end it early and let the rest be read as new fields or frames.
+const sseField = (name: string, value: string, event: string): string => {
+  if (/[\r\n]/.test(value)) {
+    throw new ChannelError(
+      `Invalid SSE ${name} ${JSON.stringify(value)}: line breaks are not allowed`,
+      event,
+      value,
+    );
+  }
+  return `${name}: ${value}`;
+};
+
+const encodeSse = ({ event, data, id, retry }: SseMessage<EventMap>): string =>
+  [
+    ...(id === undefined ? [] : [sseField("id", id, event)]),
+    sseField("event", event, event),
+    ...(retry === undefined ? [] : [`retry: ${retry}`]),
+    `data: ${JSON.stringify(data)}`,
+    "",
+    "",
+  ].join("\n");
+
+/**
+ * Define a channel from runtime guards for its events.
+ * The event map is inferred from the guards, or can be given explicitly.
+ * @example
+ * ```ts
+ * const chat = defineChannel({
+ *   "user.joined": isObjectOf({ id: isString }),
+ *   msg: isObjectOf({ text: isString }),
+ * });
+ * chat.sse.encode({ event: "msg", data: { text: "hi" }, id: "1" }); // 'id: 1\nevent: msg\ndata: {"text":"hi"}\n\n'
+ * for await (const message of chat.sse.decode(response.body)) {
+ *   if (message.event === "msg") message.data.text; // string
+ * }
+ * ```
+ */
+export const defineChannel = <Events extends EventMap>(
+  events: ChannelGuards<Events>,
+): Channel<Events> => {
+  const guards = events as Record<string, Guard<unknown>>;
+  const check = (event: string, data: unknown): ChannelMessage<Events> =>
+    checkMessage(guards, event, data) as ChannelMessage<Events>;
+  return {
+    events,
+    is: (value): value is ChannelMessage<Events> =>
+      isRecord(value) &&
+      isString(value.event) &&
+      Object.hasOwn(guards, value.event) &&
+      (guards[value.event]?.(value.data) ?? false),
+    sse: {
+      decode: (stream) =>
+        stream.pipeThrough(
+          sseDecoder(({ data, event = "message", id, retry }) => {
+            const message = check(event, parseJson(data.join("\n"), event));
+            return {
+              ...message,
+              ...(id === undefined ? {} : { id }),
+              ...(retry === undefined ? {} : { retry }),
+            };
+          }),
+        ),
+      encode: encodeSse,
+    },
+    ws: {
+      decode: (data) => {
+        const message = parseJson(typeof data === "string" ? data : new TextDecoder().decode(data));
+        if (!isRecord(message) || !isString(message.event)) {
+          throw new ChannelError(
+            `Invalid message: received ${JSON.stringify(message)}`,
+            undefined,
+            message,
+          );
+        }
+        return check(message.event, message.data);
+      },
+      encode: ({ event, data }) => JSON.stringify({ data, event }),
+    },
+  };
+};
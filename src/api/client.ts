@@ -0,0 +1,145 @@
+import { buildPath, type RouteParams } from "./path";
+import { stringifyQuery } from "./query";
+import type { RouteContract, RouteInput, RouteResponse } from "./route";
+
+/**
+ * Minimal fetch signature used by createClient, so tests can inject a stand-in.
+ * @example
+ * ```ts
+ * const fetcher: FetchLike = (url, init) => fetch(url, init);
+ * ```
+ */
+export type FetchLike = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Options for createClient.
+ * @example
+ * ```ts
+ * const options: ClientOptions = { baseUrl: "https://api.example.com", headers: { authorization: "Bearer …" } };
+ * ```
+ */
+export type ClientOptions = {
+  baseUrl: string;
+  fetch?: FetchLike;
+  headers?: Record<string, string>;
+};
+
+type ClientInput<R extends RouteContract> = Omit<RouteInput<R>, "params"> &
+  (Record<never, never> extends RouteParams<R["path"]>
+    ? { params?: RouteParams<R["path"]> }
+    : { params: RouteParams<R["path"]> });
+
+type ClientArgs<R extends RouteContract> =
+  Record<never, never> extends ClientInput<R> ? [input?: ClientInput<R>] : [input: ClientInput<R>];
+
+/**
+ * Client generated from a route map: one method per route, with inferred arguments and responses.
+ * @example
+ * ```ts
+ * type Api = Client<{ getUser: typeof getUser }>;
+ * // { getUser: (input: { params: { id: string } }) => Promise<RouteResponse<typeof getUser>> }
+ * ```
+ */
+export type Client<Routes extends Record<string, RouteContract>> = {
+  [K in keyof Routes]: (...args: ClientArgs<Routes[K]>) => Promise<RouteResponse<Routes[K]>>;
+};
+
+/**
+ * Error thrown by a generated client when a response is not described by the route contract.
+ * @example
+ * ```ts
+ * try {
+ *   await api.getUser({ params: { id: "1" } });
+ * } catch (error) {
+ *   if (error instanceof ClientError) error.status; // 500
+ * }
+ * ```
+ */
+export class ClientError extends Error {
+  readonly status: number;
+  readonly body: unknown;
+
+  constructor(message: string, status: number, body: unknown) {
+    super(message);
+    this.name = "ClientError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
+const toSearch = (query: unknown): string => {
+  const search = stringifyQuery(query ?? {});
+  return search ? `?${search}` : "";
+};
+
+const readBody = async (response: Response, route: RouteContract): Promise<unknown> => {
+  const text = await response.text();
+  try {
+    return text ? JSON.parse(text) : null;
+  } catch {
+    throw new ClientError(
+      `Response body for status ${response.status} from ${route.method} ${route.path} is not valid JSON`,
+      response.status,
+      text,
+    );
+  }
+};
+
+const request = async (
+  route: RouteContract,
+  options: ClientOptions,
+  input: { params?: Record<string, unknown>; query?: unknown; body?: unknown } = {},
+): Promise<{ status: number; body: unknown }> => {
+  const { baseUrl, fetch: fetcher = fetch, headers } = options;
+  const hasBody = input.body !== undefined;
+  const url = `${baseUrl.replace(/\/$/, "")}${buildPath(route.path, input.params)}${toSearch(input.query)}`;
+  const response = await fetcher(url, {
+    body: hasBody ? JSON.stringify(input.body) : undefined,
+    headers: {
+      accept: "application/json",
+      ...(hasBody && { "content-type": "application/json" }),
+      ...headers,
+    },
+    method: route.method,
+  });
+  const body = await readBody(response, route);
+  const guard = route.responses[response.status as keyof RouteContract["responses"]];
+  if (!guard) {
+    throw new ClientError(
+      `Unexpected status ${response.status} from ${route.method} ${route.path}`,
+      response.status,
+      body,
+    );
+  }
+  if (!guard(body)) {
+    throw new ClientError(
+      `Response body for status ${response.status} from ${route.method} ${route.path} does not match the contract`,
+      response.status,
+      body,
+    );
+  }
+  return { body, status: response.status };
+};
+
+/**
+ * Create a typed fetch client from a map of route contracts.
+ * Path params are filled into the path template, the query is serialized, and JSON responses are
+ * checked against the guard declared for their status code.
+ * @example
+ * ```ts
+ * const api = createClient({ getUser, createUser }, { baseUrl: "https://api.example.com" });
+ * const response = await api.getUser({ params: { id: "1" } });
+ * if (response.status === 200) response.body; // User
+ * ```
+ */
+export const createClient = <Routes extends Record<string, RouteContract>>(
+  routes: Routes,
+  options: ClientOptions,
+): Client<Routes> =>
+  Object.fromEntries(
+    Object.entries(routes).map(([name, route]) => [
+      name,
+      (input?: { params?: Record<string, unknown>; query?: unknown; body?: unknown }) =>
+        request(route, options, input),
+    ]),
+  ) as unknown as Client<Routes>;
@@ -0,0 +1,237 @@
+import { formatAccept, parseAccept, type ContentType, type MediaRange } from "./media";
+
+/**
+ * Parsed Cache-Control directives.
+ * `no-cache` and `private` may carry a quoted list of field names instead of `true`.
+ * @example
+ * ```ts
+ * const cache: CacheControl = { public: true, "max-age": 3600, "stale-while-revalidate": 60 };
+ * ```
+ */
+export type CacheControl = {
+  "max-age"?: number;
+  "s-maxage"?: number;
+  "max-stale"?: number;
+  "min-fresh"?: number;
+  "stale-while-revalidate"?: number;
+  "stale-if-error"?: number;
+  "no-cache"?: boolean | string;
+  "no-store"?: boolean;
+  "no-transform"?: boolean;
+  "only-if-cached"?: boolean;
+  "must-revalidate"?: boolean;
+  "proxy-revalidate"?: boolean;
+  "must-understand"?: boolean;
+  private?: boolean | string;
+  public?: boolean;
+  immutable?: boolean;
+};
+
+/**
+ * Standard headers, keyed by lowercase name, with typed values.
+ * Other headers are kept as strings, and Content-Type may hold any media type a server sends.
+ * @example
+ * ```ts
+ * const headers: HttpHeaders = { "content-type": "application/json", "content-length": 42, "x-request-id": "abc" };
+ * ```
+ */
+export type HttpHeaders = {
+  accept?: MediaRange[];
+  "accept-encoding"?: string;
+  "accept-language"?: string;
+  authorization?: string;
+  "cache-control"?: CacheControl;
+  "content-encoding"?: string;
+  "content-length"?: number;
+  "content-type"?: ContentType | (string & Record<never, never>);
+  cookie?: string;
+  etag?: string;
+  "if-none-match"?: string;
+  "last-modified"?: string;
+  location?: string;
+  "retry-after"?: string;
+  "set-cookie"?: string[];
+  "user-agent"?: string;
+  vary?: string;
+  [name: string]: string | number | string[] | MediaRange[] | CacheControl | undefined;
+};
+
+/**
+ * Standard header name in its canonical casing.
+ * @example
+ * ```ts
+ * const name: HeaderName = "Content-Type";
+ * ```
+ */
+export type HeaderName = keyof {
+  [K in keyof HttpHeaders as K extends string
+    ? string extends K
+      ? never
+      : CanonicalName<K>
+    : never]: true;
+};
+
+type CanonicalName<Name extends string> = Name extends `${infer Head}-${infer Tail}`
+  ? `${Capitalize<Head>}-${CanonicalName<Tail>}`
+  : Capitalize<Name>;
+
+/**
+ * Value type of a header, looked up case-insensitively.
+ * @example
+ * ```ts
+ * type Length = HeaderValue<"Content-Length">; // number | undefined
+ * ```
+ */
+export type HeaderValue<Name extends string> = HttpHeaders[Lowercase<Name>];
+
+const CACHE_NUMBERS = new Set([
+  "max-age",
+  "s-maxage",
+  "max-stale",
+  "min-fresh",
+  "stale-while-revalidate",
+  "stale-if-error",
+]);
+
+// Commas inside quoted arguments, as in `private="Set-Cookie, Authorization"`, do not split directives.
+const parseCacheControl = (value: string): CacheControl =>
+  Object.fromEntries(
+    (value.match(/(?:[^,"]|"[^"]*")+/g) ?? [])
+      .filter((directive) => directive.trim() !== "")
+      .map((directive) => {
+        const [name = "", ...rest] = directive.split("=");
+        const key = name.trim().toLowerCase();
+        const argument = rest
+          .join("=")
+          .trim()
+          .replace(/^"(.*)"$/s, "$1");
+        if (CACHE_NUMBERS.has(key)) {
+          return [key, Number(argument)];
+        }
+        return [key, rest.length === 0 ? true : argument];
+      }),
+  ) as CacheControl;
+
+const formatCacheControl = (cache: CacheControl): string =>
+  Object.entries(cache)
+    .filter(([, value]) => value !== false && value !== undefined)
+    .map(([name, value]) => {
+      if (value === true) {
+        return name;
+      }
+      return typeof value === "string" ? `${name}="${value}"` : `${name}=${String(value)}`;
+    })
+    .join(", ");
+
+const parseValue = (name: string, value: string): HttpHeaders[string] => {
+  switch (name) {
+    case "accept": {
+      return parseAccept(value);
+    }
+    case "cache-control": {
+      return parseCacheControl(value);
+    }
+    case "content-length": {
+      return /^\d+$/.test(value) ? Number(value) : undefined;
+    }
+    default: {
+      return value;
+    }
+  }
+};
+
+const toCanonical = (name: string): string =>
+  name
+    .split("-")
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join("-");
+
+/**
+ * Parse headers from a Headers object, a plain record or raw `Name: value` lines.
+ * Names are lowercased, so lookups are case-insensitive, and standard values are typed.
+ * A Content-Length that is not a non-negative integer is left out.
+ * @example
+ * ```ts
+ * const headers = parseHeaders("Content-Length: 42\r\nCache-Control: public, max-age=60");
+ * headers["content-length"]; // 42
+ * headers["cache-control"]; // { public: true, "max-age": 60 }
+ * ```
+ */
+export const parseHeaders = (
+  input: Headers | Record<string, string | string[]> | string,
+): HttpHeaders => {
+  const entries: [string, string][] =
+    typeof input === "string"
+      ? input
+          .split(/\r?\n/)
+          .filter((line) => line.includes(":"))
+          .map((line) => [
+            line.slice(0, line.indexOf(":")),
+            line.slice(line.indexOf(":") + 1).trim(),
+          ])
+      : input instanceof Headers
+        ? [
+            ...[...input.entries()].filter(([name]) => name !== "set-cookie"),
+            ...input.getSetCookie().map((cookie): [string, string] => ["set-cookie", cookie]),
+          ]
+        : Object.entries(input).flatMap(([name, value]) =>
+            (Array.isArray(value) ? value : [value]).map((item): [string, string] => [name, item]),
+          );
+  const headers: HttpHeaders = {};
+  const cookies: string[] = [];
+  const raw = new Map<string, string>();
+  for (const [name, value] of entries) {
+    const key = name.trim().toLowerCase();
+    if (key === "set-cookie") {
+      cookies.push(value);
+    } else {
+      raw.set(key, raw.has(key) ? `${raw.get(key)}, ${value}` : value);
+    }
+  }
+  for (const [name, value] of raw) {
+    const parsed = parseValue(name, value);
+    if (parsed !== undefined) {
+      headers[name] = parsed;
+    }
+  }
+  if (cookies.length > 0) {
+    headers["set-cookie"] = cookies;
+  }
+  return headers;
+};
+
+/**
+ * Format typed headers as canonical `[name, value]` pairs, usable as HeadersInit.
+ * Each Set-Cookie value gets its own pair.
+ * @example
+ * ```ts
+ * formatHeaders({ "content-type": "application/json", "cache-control": { "no-store": true } });
+ * // [["Content-Type", "application/json"], ["Cache-Control", "no-store"]]
+ * ```
+ */
+export const formatHeaders = (headers: HttpHeaders): [string, string][] =>
+  Object.entries(headers).flatMap(([name, value]): [string, string][] => {
+    const canonical = toCanonical(name.toLowerCase());
+    if (value === undefined) {
+      return [];
+    }
+    if (name.toLowerCase() === "accept" && Array.isArray(value)) {
+      return [[canonical, formatAccept(value as MediaRange[])]];
+    }
+    if (Array.isArray(value)) {
+      return value.map((item): [string, string] => [canonical, String(item)]);
+    }
+    return [[canonical, typeof value === "object" ? formatCacheControl(value) : String(value)]];
+  });
+
+/**
+ * Read a header from typed headers, ignoring the case of the name.
+ * @example
+ * ```ts
+ * getHeader(parseHeaders(request.headers), "Content-Length"); // number | undefined
+ * ```
+ */
+export const getHeader = <Name extends string>(
+  headers: HttpHeaders,
+  name: Name,
+): HeaderValue<Name> => headers[name.toLowerCase()] as HeaderValue<Name>;
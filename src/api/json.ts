@@ -0,0 +1,103 @@
+import type { TypeErrorMessage } from "../diagnostics";
+import type { IsAny } from "../guard";
+import type { JsonValue } from "./basic";
+
+type NonJson = undefined | symbol | ((...args: any[]) => any);
+
+type BigIntError = TypeErrorMessage<"bigint is not JSON serializable">;
+
+type IsDropped<V> = [V] extends [NonJson] ? true : false;
+
+type IsMaybeDropped<V> = [Extract<V, NonJson>] extends [never] ? false : true;
+
+type JsonifyItem<V> =
+  IsDropped<V> extends true
+    ? null
+    : Jsonify<Exclude<V, NonJson>> | (IsMaybeDropped<V> extends true ? null : never);
+
+type JsonifyObject<T> = {
+  [K in keyof T as K extends symbol
+    ? never
+    : IsMaybeDropped<T[K]> extends true
+      ? never
+      : K]: Jsonify<T[K]>;
+} & {
+  [K in keyof T as K extends symbol
+    ? never
+    : IsDropped<T[K]> extends true
+      ? never
+      : IsMaybeDropped<T[K]> extends true
+        ? K
+        : never]?: Jsonify<Exclude<T[K], NonJson>>;
+} extends infer Result
+  ? { [K in keyof Result]: Result[K] }
+  : never;
+
+/**
+ * Type of a value after a JSON.stringify / JSON.parse round trip.
+ * `toJSON()` is honored (so Date becomes string), undefined, function and symbol properties are dropped,
+ * they become null inside arrays, Map and Set become `{}`, and bigint is a type error.
+ * Types that are already JSON, such as JsonObject, are kept as they are.
+ * @example
+ * ```ts
+ * type Payload = Jsonify<{ id: bigint }>; // { id: TypeErrorMessage<"bigint is not JSON serializable"> }
+ * type User = Jsonify<{ name: string; createdAt: Date; nickname?: string; save: () => void }>;
+ * // { name: string; createdAt: string; nickname?: string }
+ * ```
+ */
+export type Jsonify<T> =
+  IsAny<T> extends true
+    ? any
+    : unknown extends T
+      ? JsonValue
+      : [T] extends [JsonValue]
+        ? T
+        : T extends { toJSON: (...args: any[]) => infer Json }
+          ? Jsonify<Json>
+          : T extends bigint
+            ? BigIntError
+            : T extends string | number | boolean | null
+              ? T
+              : T extends NonJson
+                ? never
+                : T extends ReadonlyMap<unknown, unknown> | ReadonlySet<unknown>
+                  ? Record<never, never>
+                  : T extends readonly unknown[]
+                    ? { -readonly [K in keyof T]: JsonifyItem<T[K]> }
+                    : T extends object
+                      ? JsonifyObject<T>
+                      : never;
+
+type MaxDepth = 8;
+
+// Values that are already JSON cannot hold bigint, and recursive types stop after a few levels.
+type ContainsBigInt<T, Depth extends unknown[] = []> = Depth["length"] extends MaxDepth
+  ? false
+  : [T] extends [JsonValue]
+    ? false
+    : T extends bigint
+      ? true
+      : T extends { toJSON: (...args: any[]) => unknown } | NonJson | ReadonlyMap<unknown, unknown>
+        ? false
+        : T extends object
+          ? true extends { [K in keyof T]-?: ContainsBigInt<T[K], [...Depth, unknown]> }[keyof T]
+            ? true
+            : false
+          : false;
+
+/**
+ * Serialize a value through JSON, returning the same data JSON.parse(JSON.stringify(value)) would.
+ * Values containing bigint are rejected at compile time.
+ * @example
+ * ```ts
+ * const payload = toJson({ name: "John", createdAt: new Date(0) }); // { name: string; createdAt: string }
+ * payload.createdAt; // "1970-01-01T00:00:00.000Z"
+ * toJson({ id: 1n }); // Type error
+ * ```
+ */
+export const toJson = <T>(
+  value: T & (ContainsBigInt<T> extends true ? BigIntError : unknown),
+): Jsonify<NoInfer<T>> => {
+  const json = JSON.stringify(value);
+  return (json === undefined ? undefined : JSON.parse(json)) as Jsonify<T>;
+};
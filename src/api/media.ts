@@ -0,0 +1,157 @@
+/**
+ * Common media types.
+ * @example
+ * ```ts
+ * const type: MimeType = "application/json";
+ * ```
+ */
+export type MimeType =
+  | "application/json"
+  | "application/problem+json"
+  | "application/ld+json"
+  | "application/xml"
+  | "application/octet-stream"
+  | "application/pdf"
+  | "application/zip"
+  | "application/x-www-form-urlencoded"
+  | "multipart/form-data"
+  | "text/plain"
+  | "text/html"
+  | "text/css"
+  | "text/csv"
+  | "text/javascript"
+  | "text/event-stream"
+  | "image/png"
+  | "image/jpeg"
+  | "image/gif"
+  | "image/webp"
+  | "image/avif"
+  | "image/svg+xml"
+  | "audio/mpeg"
+  | "video/mp4"
+  | "font/woff2";
+
+/**
+ * Content-Type value: a media type, optionally followed by parameters such as charset.
+ * @example
+ * ```ts
+ * const type: ContentType = "application/json; charset=utf-8";
+ * ```
+ */
+export type ContentType = MimeType | `${MimeType}; ${string}`;
+
+/**
+ * One entry of an Accept header: a media range with its q-value and parameters.
+ * @example
+ * ```ts
+ * const range: MediaRange = { type: "text/*", q: 0.5, params: {} };
+ * ```
+ */
+export type MediaRange = {
+  type: MimeType | "*/*" | `${string}/*` | (string & Record<never, never>);
+  q: number;
+  params: Record<string, string>;
+};
+
+const splitList = (value: string): string[] =>
+  value
+    .split(",")
+    .map((part) => part.trim())
+    .filter((part) => part !== "");
+
+/**
+ * Parse an Accept header into media ranges, keeping their order.
+ * @example
+ * ```ts
+ * parseAccept("text/html, application/*;q=0.8");
+ * // [{ type: "text/html", q: 1, params: {} }, { type: "application/*", q: 0.8, params: {} }]
+ * ```
+ */
+export const parseAccept = (value: string): MediaRange[] =>
+  splitList(value).map((entry) => {
+    const [type = "", ...parameters] = entry.split(";").map((part) => part.trim());
+    const params: Record<string, string> = {};
+    let q = 1;
+    for (const parameter of parameters) {
+      const [name = "", argument = ""] = parameter.split("=").map((part) => part.trim());
+      if (name.toLowerCase() === "q") {
+        q = Number(argument);
+      } else {
+        params[name.toLowerCase()] = argument.replaceAll('"', "");
+      }
+    }
+    return {
+      params,
+      q: Number.isFinite(q) ? Math.min(Math.max(q, 0), 1) : 0,
+      type: type.toLowerCase(),
+    };
+  });
+
+/**
+ * Format media ranges as an Accept header, omitting `q=1`.
+ * @example
+ * ```ts
+ * formatAccept([{ type: "text/html", q: 1, params: {} }, { type: "text/*", q: 0.5, params: {} }]); // "text/html, text/*;q=0.5"
+ * ```
+ */
+export const formatAccept = (ranges: MediaRange[]): string =>
+  ranges
+    .map(({ type, q, params }) =>
+      [
+        type,
+        ...Object.entries(params).map(([name, value]) => `${name}=${value}`),
+        ...(q === 1 ? [] : [`q=${q}`]),
+      ].join(";"),
+    )
+    .join(", ");
+
+const matchRange = (range: MediaRange, offer: string): number => {
+  const [type = "", subtype = ""] = range.type.split("/");
+  const [offerType = "", offerSubtype = ""] =
+    offer.split(";")[0]?.trim().toLowerCase().split("/") ?? [];
+  if (type === "*" && subtype === "*") {
+    return 0;
+  }
+  if (type !== offerType) {
+    return -1;
+  }
+  if (subtype === "*") {
+    return 1;
+  }
+  return subtype === offerSubtype ? 2 + Object.keys(range.params).length : -1;
+};
+
+/**
+ * Pick the offered media type the client prefers, following Accept q-values and specificity.
+ * Returns the first offer when there is no Accept header, and null when nothing is acceptable.
+ * @example
+ * ```ts
+ * negotiate("text/html;q=0.8, application/*", ["text/html", "application/json"]); // "application/json"
+ * negotiate("image/png", ["text/html", "application/json"]); // null
+ * ```
+ */
+export const negotiate = <const Offer extends string>(
+  accept: string | MediaRange[] | null | undefined,
+  offers: readonly Offer[],
+): Offer | null => {
+  const ranges = typeof accept === "string" ? parseAccept(accept) : (accept ?? []);
+  if (ranges.length === 0) {
+    return offers[0] ?? null;
+  }
+  let best: { offer: Offer; q: number } | null = null;
+  for (const offer of offers) {
+    let specificity = -1;
+    let q = 0;
+    for (const range of ranges) {
+      const match = matchRange(range, offer);
+      if (match > specificity) {
+        specificity = match;
+        q = range.q;
+      }
+    }
+    if (specificity >= 0 && q > 0 && (best === null || q > best.q)) {
+      best = { offer, q };
+    }
+  }
+  return best?.offer ?? null;
+};
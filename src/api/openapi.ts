@@ -0,0 +1,193 @@
+import type { HttpMethod } from "./basic";
+import { parsePath, type PathSegment } from "./path";
+import type { RouteContract } from "./route";
+import { toJsonSchema, type JsonSchema } from "./schema";
+import { statusText, type StatusCode } from "./status";
+
+/**
+ * Route contract with optional OpenAPI documentation fields.
+ * @example
+ * ```ts
+ * const getUser = defineRoute({ method: "GET", path: "/users/:id", summary: "Get a user", responses: { 200: isUser } });
+ * ```
+ */
+export type OpenApiRoute = RouteContract & {
+  readonly summary?: string;
+  readonly description?: string;
+  readonly tags?: readonly string[];
+  readonly deprecated?: boolean;
+};
+
+/**
+ * OpenAPI parameter taken from the path template or the query schema of a route.
+ * @example
+ * ```ts
+ * const parameter: OpenApiParameter = { name: "id", in: "path", required: true, schema: { type: "string" } };
+ * ```
+ */
+export type OpenApiParameter = {
+  name: string;
+  in: "path" | "query";
+  required: boolean;
+  schema: JsonSchema;
+  description?: string;
+  style?: "deepObject";
+  explode?: boolean;
+};
+
+type OpenApiContent = { "application/json": { schema: JsonSchema } };
+
+/**
+ * OpenAPI operation generated for one route.
+ * @example
+ * ```ts
+ * const operation: OpenApiOperation = { operationId: "getUser", responses: { "200": { description: "OK" } } };
+ * ```
+ */
+export type OpenApiOperation = {
+  operationId: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  deprecated?: boolean;
+  parameters?: OpenApiParameter[];
+  requestBody?: { required: true; content: OpenApiContent };
+  responses: Record<string, { description: string; content?: OpenApiContent }>;
+};
+
+/**
+ * OpenAPI 3.1 document.
+ * @example
+ * ```ts
+ * const document: OpenApiDocument = { openapi: "3.1.0", info: { title: "Users", version: "1.0.0" }, paths: {} };
+ * ```
+ */
+export type OpenApiDocument = {
+  openapi: "3.1.0";
+  info: { title: string; version: string; description?: string };
+  servers?: { url: string; description?: string }[];
+  paths: Record<string, Partial<Record<Lowercase<HttpMethod>, OpenApiOperation>>>;
+};
+
+type PathVariant = { path: string; parameters: OpenApiParameter[] };
+
+const NO_CONTENT = new Set<number>([204, 205, 304]);
+
+const DEFAULT_PATTERN = "^(?:[^/]+)$";
+
+const WILDCARD = "wildcard";
+
+const paramSchema = ({ param }: PathSegment): JsonSchema => {
+  if (param?.type !== "string") {
+    return { type: param?.type ?? "string" };
+  }
+  const { source } = param.pattern;
+  return source === DEFAULT_PATTERN || param.name === "*"
+    ? { type: "string" }
+    : { pattern: source, type: "string" };
+};
+
+// OpenAPI path parameters are always required, so each optional segment doubles the paths.
+// The trailing `*` wildcard is optional too and becomes a parameter named "wildcard".
+const pathVariants = (pattern: string): PathVariant[] =>
+  parsePath(pattern).reduce<PathVariant[]>(
+    (variants, segment) =>
+      variants.flatMap(({ path, parameters }): PathVariant[] => {
+        const { prefix, param } = segment;
+        if (!param) {
+          return [{ parameters, path: `${path}/${prefix}` }];
+        }
+        const wildcard = param.name === "*";
+        const name = wildcard ? WILDCARD : param.name;
+        const parameter: OpenApiParameter = {
+          in: "path",
+          name,
+          required: true,
+          schema: paramSchema(segment),
+          ...(wildcard ? { description: 'Rest of the path, which may contain "/"' } : {}),
+        };
+        const next = { parameters: [...parameters, parameter], path: `${path}/${prefix}{${name}}` };
+        return param.optional || wildcard ? [next, { parameters, path }] : [next];
+      }),
+    [{ parameters: [], path: "" }],
+  );
+
+const queryParameters = (query: JsonSchema): OpenApiParameter[] =>
+  Object.entries(query.properties ?? {}).map(([name, schema]) => ({
+    in: "query",
+    name,
+    required: query.required?.includes(name) ?? false,
+    schema,
+    ...(schema.type === "object" ? { explode: true, style: "deepObject" as const } : {}),
+  }));
+
+const jsonContent = (schema: JsonSchema): OpenApiContent => ({ "application/json": { schema } });
+
+const createOperation = (
+  operationId: string,
+  route: OpenApiRoute,
+  path: PathVariant,
+): OpenApiOperation => {
+  const { summary, description, tags, deprecated, query, body, responses } = route;
+  const parameters = [...path.parameters, ...queryParameters(toJsonSchema(query))];
+  return {
+    operationId,
+    ...(summary === undefined ? {} : { summary }),
+    ...(description === undefined ? {} : { description }),
+    ...(tags === undefined ? {} : { tags: [...tags] }),
+    ...(deprecated === undefined ? {} : { deprecated }),
+    ...(parameters.length === 0 ? {} : { parameters }),
+    ...(body === undefined
+      ? {}
+      : { requestBody: { content: jsonContent(toJsonSchema(body)), required: true } }),
+    responses: Object.fromEntries(
+      Object.entries(responses).map(([status, guard]) => [
+        status,
+        {
+          description: statusText[Number(status) as StatusCode],
+          ...(NO_CONTENT.has(Number(status)) ? {} : { content: jsonContent(toJsonSchema(guard)) }),
+        },
+      ]),
+    ),
+  };
+};
+
+/**
+ * Generate an OpenAPI 3.1 document from route contracts, keyed by operation id.
+ * Path template params become path parameters, query and body schemas become parameters and request bodies,
+ * and each declared status becomes a response; guards without a schema are documented as `{}`.
+ * @example
+ * ```ts
+ * const document = createOpenApi({ getUser, createUser }, { info: { title: "Users", version: "1.0.0" } });
+ * document.paths["/users/{id}"]?.get?.operationId; // "getUser"
+ * ```
+ */
+export const createOpenApi = (
+  routes: Record<string, OpenApiRoute>,
+  options: Pick<OpenApiDocument, "info" | "servers">,
+): OpenApiDocument => {
+  const paths: OpenApiDocument["paths"] = {};
+  for (const [operationId, route] of Object.entries(routes)) {
+    const method = route.method.toLowerCase() as Lowercase<HttpMethod>;
+    for (const [index, variant] of pathVariants(route.path).entries()) {
+      const path = variant.path || "/";
+      const item = (paths[path] ??= {});
+      if (item[method]) {
+        throw new TypeError(
+          `Duplicate OpenAPI operation ${route.method} ${path} in "${operationId}"`,
+        );
+      }
+      item[method] = createOperation(
+        index === 0 ? operationId : `${operationId}_${index}`,
+        route,
+        variant,
+      );
+    }
+  }
+  return {
+    info: options.info,
+    openapi: "3.1.0",
+    paths,
+    ...(options.servers ? { servers: options.servers } : {}),
+  };
+};
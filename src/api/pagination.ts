@@ -0,0 +1,204 @@
+import type { Opaque } from "../brand";
+import type { Guard } from "../guard";
+import type { JsonValue } from "./basic";
+
+declare const cursorKeySymbol: unique symbol;
+
+/**
+ * Opaque base64url cursor that remembers the type of the sort key it encodes.
+ * @example
+ * ```ts
+ * type UserCursor = Cursor<{ createdAt: string; id: string }>;
+ * const cursor: UserCursor = "eyJpZCI6IjEifQ"; // Type error, use encodeCursor
+ * ```
+ */
+export type Cursor<Key = JsonValue> = Opaque<string, "Cursor"> & {
+  readonly [cursorKeySymbol]?: Key;
+};
+
+/**
+ * Pagination state returned alongside a page of items.
+ * @example
+ * ```ts
+ * const info: PageInfo = { hasNextPage: true, endCursor: encodeCursor({ id: "10" }), totalCount: 42 };
+ * ```
+ */
+export type PageInfo<Key = JsonValue> = {
+  hasNextPage: boolean;
+  endCursor: Cursor<Key> | null;
+  totalCount?: number;
+};
+
+/**
+ * Page of items fetched with an offset and a limit.
+ * @example
+ * ```ts
+ * type Users = OffsetPage<User>; // { mode: "offset"; items: User[]; offset: number; limit: number; pageInfo: ... }
+ * ```
+ */
+export type OffsetPage<T> = {
+  mode: "offset";
+  items: T[];
+  offset: number;
+  limit: number;
+  pageInfo: Omit<PageInfo, "endCursor">;
+};
+
+/**
+ * Page of items fetched after a cursor.
+ * @example
+ * ```ts
+ * type Users = CursorPage<User, { id: string }>; // { mode: "cursor"; items: User[]; pageInfo: PageInfo<{ id: string }> }
+ * ```
+ */
+export type CursorPage<T, Key = JsonValue> = {
+  mode: "cursor";
+  items: T[];
+  pageInfo: PageInfo<Key>;
+};
+
+/**
+ * Paginated list in either offset or cursor mode, discriminated by `mode`.
+ * @example
+ * ```ts
+ * const render = (page: Paginated<User>) => (page.mode === "offset" ? page.offset : page.pageInfo.endCursor);
+ * ```
+ */
+export type Paginated<T, Key = JsonValue> = OffsetPage<T> | CursorPage<T, Key>;
+
+/**
+ * Arguments for offset pagination.
+ * @example
+ * ```ts
+ * const args: OffsetArgs = { offset: 20, limit: 10 };
+ * ```
+ */
+export type OffsetArgs = { offset?: number; limit: number };
+
+/**
+ * Arguments for cursor pagination; `cursorKey` reads the sort key of an item.
+ * @example
+ * ```ts
+ * const args: CursorArgs<User, { id: string }> = { first: 10, after: cursor, cursorKey: (user) => ({ id: user.id }) };
+ * ```
+ */
+export type CursorArgs<T, Key extends JsonValue> = {
+  first: number;
+  after?: Cursor<Key> | null;
+  cursorKey: (item: T) => Key;
+};
+
+const toBase64Url = (text: string): string =>
+  btoa(Array.from(new TextEncoder().encode(text), (byte) => String.fromCodePoint(byte)).join(""))
+    .replaceAll("+", "-")
+    .replaceAll("/", "_")
+    .replace(/=+$/, "");
+
+const fromBase64Url = (value: string): string =>
+  new TextDecoder().decode(
+    Uint8Array.from(
+      atob(value.replaceAll("-", "+").replaceAll("_", "/")),
+      (char) => char.codePointAt(0) ?? 0,
+    ),
+  );
+
+/**
+ * Encode a sort key as an opaque base64url cursor.
+ * @example
+ * ```ts
+ * const cursor = encodeCursor({ createdAt: "2024-01-01", id: "42" }); // Cursor<{ createdAt: string; id: string }>
+ * ```
+ */
+export const encodeCursor = <const Key extends JsonValue>(key: Key): Cursor<Key> =>
+  toBase64Url(JSON.stringify(key)) as Cursor<Key>;
+
+/**
+ * Decode the sort key stored in a cursor.
+ * @example
+ * ```ts
+ * decodeCursor(encodeCursor({ id: "42" })); // { id: "42" }
+ * ```
+ */
+export const decodeCursor = <Key>(cursor: Cursor<Key>): Key =>
+  JSON.parse(fromBase64Url(cursor)) as Key;
+
+/**
+ * Validate an untrusted cursor, such as a query parameter, against the expected sort key.
+ * Throws a TypeError if the value is not a cursor or its key does not pass the guard.
+ * @example
+ * ```ts
+ * const after = parseCursor(query.after, isObjectOf({ id: isString })); // Cursor<{ id: string }>
+ * ```
+ */
+export const parseCursor = <Key>(value: unknown, guard: Guard<Key>): Cursor<Key> => {
+  const key = ((): unknown => {
+    try {
+      return typeof value === "string" ? JSON.parse(fromBase64Url(value)) : undefined;
+    } catch {
+      return undefined;
+    }
+  })();
+  if (!guard(key)) {
+    throw new TypeError(`Invalid cursor: received ${JSON.stringify(value)}`);
+  }
+  return value as Cursor<Key>;
+};
+
+const checkCount = (name: string, value: number): void => {
+  if (!Number.isInteger(value) || value < 0) {
+    throw new RangeError(`${name} must be a non-negative integer, received ${value}`);
+  }
+};
+
+const paginateCursor = <T, Key extends JsonValue>(
+  items: readonly T[],
+  { first, after, cursorKey }: CursorArgs<T, Key>,
+): CursorPage<T, Key> => {
+  checkCount("first", first);
+  const afterIndex = after
+    ? items.findIndex((item) => encodeCursor(cursorKey(item)) === after)
+    : -1;
+  if (after && afterIndex === -1) {
+    throw new TypeError(`Cursor ${after} does not match any item`);
+  }
+  const page = items.slice(afterIndex + 1, afterIndex + 1 + first);
+  const last = page.at(-1);
+  return {
+    items: page,
+    mode: "cursor",
+    pageInfo: {
+      endCursor: last === undefined ? null : encodeCursor(cursorKey(last)),
+      hasNextPage: afterIndex + 1 + first < items.length,
+      totalCount: items.length,
+    },
+  };
+};
+
+/**
+ * Paginate an in-memory array, in offset or cursor mode depending on the arguments.
+ * Useful for stand-in implementations of list endpoints.
+ * @example
+ * ```ts
+ * paginate(users, { offset: 0, limit: 2 }); // OffsetPage<User>
+ * const page = paginate(users, { first: 2, cursorKey: (user) => ({ id: user.id }) }); // CursorPage<User, { id: string }>
+ * paginate(users, { first: 2, after: page.pageInfo.endCursor, cursorKey: (user) => ({ id: user.id }) });
+ * ```
+ */
+export const paginate = <T, Args extends OffsetArgs | CursorArgs<T, JsonValue>>(
+  items: readonly T[],
+  args: Args,
+): Args extends CursorArgs<T, infer Key> ? CursorPage<T, Key> : OffsetPage<T> => {
+  if ("first" in args) {
+    return paginateCursor(items, args) as never;
+  }
+  const { offset = 0, limit } = args;
+  checkCount("offset", offset);
+  checkCount("limit", limit);
+  return {
+    items: items.slice(offset, offset + limit),
+    limit,
+    mode: "offset",
+    offset,
+    pageInfo: { hasNextPage: offset + limit < items.length, totalCount: items.length },
+  } as never;
+};
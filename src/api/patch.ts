@@ -0,0 +1,229 @@
+import type { JsonValue } from "./basic";
+import {
+  getByPointer,
+  JsonPointerError,
+  removeByPointer,
+  setByPointer,
+  type JsonPointer,
+  type PointerValue,
+} from "./pointer";
+
+type PatchValue<T, Pointer extends string> = Exclude<PointerValue<T, Pointer>, undefined>;
+
+// Distributes over the paths; a mapped type would turn template paths into overlapping index signatures.
+type ValueOperation<T, Op extends string, Paths extends string> = Paths extends string
+  ? { op: Op; path: Paths; value: PatchValue<T, Paths> }
+  : never;
+
+type ListItem<V> = V extends readonly (infer Item)[]
+  ? number extends V["length"]
+    ? Item
+    : never
+  : never;
+
+type AppendOperation<T, Paths extends string = JsonPointer<T>> = Paths extends string
+  ? [ListItem<PatchValue<T, Paths>>] extends [never]
+    ? never
+    : { op: "add"; path: `${Paths}/-`; value: ListItem<PatchValue<T, Paths>> }
+  : never;
+
+type TargetPointer<T> = JsonPointer<T> | AppendOperation<T>["path"];
+
+/**
+ * One RFC 6902 operation whose paths and values are checked against a document type.
+ * `add` also accepts `/-` to append to arrays.
+ * @example
+ * ```ts
+ * type Operation = JsonPatchOperation<{ name: string; tags: string[] }>;
+ * const op: Operation = { op: "add", path: "/tags/-", value: "new" };
+ * ```
+ */
+export type JsonPatchOperation<T = JsonValue> =
+  | ValueOperation<T, "add", JsonPointer<T>>
+  | AppendOperation<T>
+  | { op: "remove"; path: Exclude<JsonPointer<T>, ""> }
+  | ValueOperation<T, "replace", JsonPointer<T>>
+  | { op: "move"; from: Exclude<JsonPointer<T>, "">; path: TargetPointer<T> }
+  | { op: "copy"; from: JsonPointer<T>; path: TargetPointer<T> }
+  | ValueOperation<T, "test", JsonPointer<T>>;
+
+/**
+ * RFC 6902 JSON Patch document for a document type.
+ * @example
+ * ```ts
+ * const patch: JsonPatch<{ name: string }> = [{ op: "replace", path: "/name", value: "Jane" }];
+ * const invalid: JsonPatch<{ name: string }> = [{ op: "replace", path: "/name", value: 1 }]; // Type error
+ * ```
+ */
+export type JsonPatch<T = JsonValue> = JsonPatchOperation<T>[];
+
+type LooseOperation = { op: string; path: string; from?: string; value?: unknown };
+
+/**
+ * Error thrown by applyPatch, naming the operation that failed.
+ * @example
+ * ```ts
+ * try {
+ *   applyPatch(doc, patch);
+ * } catch (error) {
+ *   if (error instanceof JsonPatchError) error.index; // 2
+ * }
+ * ```
+ */
+export class JsonPatchError extends Error {
+  readonly index: number;
+  readonly operation: LooseOperation;
+
+  constructor(index: number, operation: LooseOperation, reason: string) {
+    super(`JSON Patch operation ${index} (${operation.op} ${operation.path}) failed: ${reason}`);
+    this.name = "JsonPatchError";
+    this.index = index;
+    this.operation = operation;
+  }
+}
+
+const get = getByPointer as (document: unknown, pointer: string) => unknown;
+const set = setByPointer as (document: unknown, pointer: string, value: unknown) => unknown;
+const remove = removeByPointer as (document: unknown, pointer: string) => unknown;
+
+const escapeToken = (token: string): string => token.replaceAll("~", "~0").replaceAll("/", "~1");
+
+const isJsonObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isDeepEqual = (a: unknown, b: unknown): boolean => {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isDeepEqual(item, b[index]));
+  }
+  if (isJsonObject(a) && isJsonObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => Object.hasOwn(b, key) && isDeepEqual(a[key], b[key]))
+    );
+  }
+  return Object.is(a, b);
+};
+
+const existing = (document: unknown, pointer: string): unknown => {
+  const value = get(document, pointer);
+  if (value === undefined) {
+    throw new JsonPointerError(pointer, "no value at this location");
+  }
+  return value;
+};
+
+const add = (document: unknown, pointer: string, value: unknown): unknown => {
+  const separator = pointer.lastIndexOf("/");
+  const parentPointer = pointer.slice(0, Math.max(separator, 0));
+  const parent = pointer === "" ? undefined : existing(document, parentPointer);
+  if (!Array.isArray(parent)) {
+    return set(document, pointer, value);
+  }
+  const token = pointer.slice(separator + 1);
+  const index = token === "-" ? parent.length : Number(token);
+  if (!/^(?:0|[1-9]\d*)$/.test(token) && token !== "-") {
+    throw new JsonPointerError(pointer, `"${token}" is not an array index`);
+  }
+  if (index > parent.length) {
+    throw new JsonPointerError(pointer, `index ${token} is out of bounds`);
+  }
+  return set(document, parentPointer, parent.toSpliced(index, 0, value));
+};
+
+const applyOperation = (document: unknown, operation: LooseOperation): unknown => {
+  const { op, path, from = "", value } = operation;
+  switch (op) {
+    case "add": {
+      return add(document, path, value);
+    }
+    case "remove": {
+      return remove(document, path);
+    }
+    case "replace": {
+      existing(document, path);
+      return set(document, path, value);
+    }
+    case "move": {
+      if (path.startsWith(`${from}/`)) {
+        throw new JsonPointerError(path, `cannot move "${from}" into its own child`);
+      }
+      const moved = existing(document, from);
+      return add(remove(document, from), path, moved);
+    }
+    case "copy": {
+      return add(document, path, existing(document, from));
+    }
+    case "test": {
+      if (!isDeepEqual(existing(document, path), value)) {
+        throw new JsonPointerError(path, "value does not match the test");
+      }
+      return document;
+    }
+    default: {
+      throw new TypeError(`Unknown JSON Patch operation "${op}"`);
+    }
+  }
+};
+
+/**
+ * Apply a JSON Patch, returning a new document and leaving the input untouched.
+ * Patches are atomic: if any operation fails, a JsonPatchError is thrown and no result is produced.
+ * @example
+ * ```ts
+ * applyPatch({ name: "John", tags: [] }, [
+ *   { op: "replace", path: "/name", value: "Jane" },
+ *   { op: "add", path: "/tags/-", value: "admin" },
+ * ]); // { name: "Jane", tags: ["admin"] }
+ * ```
+ */
+export const applyPatch = <T>(document: T, patch: JsonPatch<NoInfer<T>>): T =>
+  patch.reduce<unknown>((current, operation, index) => {
+    try {
+      return applyOperation(current, operation as LooseOperation);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new JsonPatchError(index, operation as LooseOperation, reason);
+    }
+  }, document) as T;
+
+const diff = (a: unknown, b: unknown, path: string): LooseOperation[] => {
+  if (isDeepEqual(a, b)) {
+    return [];
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    const common = Math.min(a.length, b.length);
+    return [
+      ...a.slice(0, common).flatMap((item, index) => diff(item, b[index], `${path}/${index}`)),
+      ...b
+        .slice(common)
+        .map((value, offset) => ({ op: "add", path: `${path}/${common + offset}`, value })),
+      ...a
+        .slice(common)
+        .map((_, offset) => ({ op: "remove", path: `${path}/${a.length - 1 - offset}` })),
+    ];
+  }
+  if (isJsonObject(a) && isJsonObject(b)) {
+    return [
+      ...Object.keys(a)
+        .filter((key) => !Object.hasOwn(b, key))
+        .map((key) => ({ op: "remove", path: `${path}/${escapeToken(key)}` })),
+      ...Object.entries(b).flatMap(([key, value]) =>
+        Object.hasOwn(a, key)
+          ? diff(a[key], value, `${path}/${escapeToken(key)}`)
+          : [{ op: "add", path: `${path}/${escapeToken(key)}`, value }],
+      ),
+    ];
+  }
+  return [{ op: "replace", path, value: b }];
+};
+
+/**
+ * Compute a JSON Patch that turns one document into another.
+ * @example
+ * ```ts
+ * createPatch({ name: "John", age: 30 }, { name: "Jane" });
+ * // [{ op: "remove", path: "/age" }, { op: "replace", path: "/name", value: "Jane" }]
+ * ```
+ */
+export const createPatch = <T>(a: T, b: NoInfer<T>): JsonPatch<T> => diff(a, b, "") as JsonPatch<T>;
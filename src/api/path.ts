@@ -0,0 +1,232 @@
+type ParamTypes = { string: string; number: number; boolean: boolean };
+
+type ParamEntry<Name extends string, Type, Optional extends boolean> = {
+  name: Name;
+  type: Type;
+  optional: Optional;
+};
+
+type ParseParam<
+  Body extends string,
+  Optional extends boolean,
+> = Body extends `${infer Name}<${infer Type extends keyof ParamTypes}>`
+  ? ParamEntry<Name, ParamTypes[Type], Optional>
+  : Body extends `${infer Name}(${string})`
+    ? ParamEntry<Name, string, Optional>
+    : ParamEntry<Body, string, Optional>;
+
+type SegmentParam<Segment extends string> = Segment extends "*"
+  ? ParamEntry<"*", string, false>
+  : Segment extends `${string}:${infer Body}`
+    ? Body extends `${infer Required}?`
+      ? ParseParam<Required, true>
+      : ParseParam<Body, false>
+    : never;
+
+type PathParams<Path extends string> = Path extends `${infer Segment}/${infer Rest}`
+  ? SegmentParam<Segment> | PathParams<Rest>
+  : SegmentParam<Path>;
+
+/**
+ * Extract typed route parameters from a path template.
+ * Supports `:name`, optional `:name?`, typed `:name<number>` / `:name<boolean>`,
+ * constrained `:name(\\d+)` and a trailing `*` wildcard.
+ * @example
+ * ```ts
+ * type Params = RouteParams<"/users/:id<number>/posts/:slug?">; // { id: number; slug?: string }
+ * type Files = RouteParams<"/files/*">; // { "*": string }
+ * ```
+ */
+export type RouteParams<Path extends string> = {
+  [E in PathParams<Path> as E["optional"] extends true ? never : E["name"]]: E["type"];
+} & {
+  [E in PathParams<Path> as E["optional"] extends true ? E["name"] : never]?: E["type"];
+} extends infer Params
+  ? { [K in keyof Params]: Params[K] }
+  : never;
+
+type ParamArgs<Pattern extends string> =
+  Record<never, never> extends RouteParams<Pattern>
+    ? [params?: RouteParams<Pattern>]
+    : [params: RouteParams<Pattern>];
+
+type CompiledParam = { name: string; type: keyof ParamTypes; optional: boolean; pattern: RegExp };
+
+/**
+ * One segment of a parsed path template: a literal prefix, followed by a param if the segment has one.
+ * A param's `pattern` is anchored and matches a single segment, or the rest of the path for `*`.
+ * @example
+ * ```ts
+ * const segment: PathSegment = { prefix: "v", param: { name: "version", type: "number", optional: false, pattern: /^(?:-?\d+(?:\.\d+)?)$/ } };
+ * ```
+ */
+export type PathSegment = { prefix: string; param?: CompiledParam };
+
+type CompiledRoute = { segments: PathSegment[]; regex: RegExp };
+
+const PARAM_PATTERN = /^:(\w+)(?:<(string|number|boolean)>|\((.+)\))?(\?)?$/;
+
+const TYPE_PATTERNS: Record<keyof ParamTypes, string> = {
+  boolean: "true|false",
+  number: String.raw`-?\d+(?:\.\d+)?`,
+  string: "[^/]+",
+};
+
+const escapeRegExp = (value: string): string =>
+  value.replaceAll(/[$()*+.?[\\\]^{|}]/g, String.raw`\$&`);
+
+const compileSegment = (segment: string): PathSegment => {
+  if (segment === "*") {
+    return { param: { name: "*", optional: false, pattern: /^.*$/s, type: "string" }, prefix: "" };
+  }
+  const colon = segment.indexOf(":");
+  const match = colon === -1 ? null : PARAM_PATTERN.exec(segment.slice(colon));
+  if (!match) {
+    return { prefix: segment };
+  }
+  const [, name = "", type = "string", constraint, optional] = match;
+  const source = constraint ?? TYPE_PATTERNS[type as keyof ParamTypes];
+  return {
+    param: {
+      name,
+      optional: optional === "?",
+      pattern: new RegExp(`^(?:${source})$`),
+      type: type as keyof ParamTypes,
+    },
+    prefix: segment.slice(0, colon),
+  };
+};
+
+const segmentSource = ({ prefix, param }: PathSegment, index: number): string => {
+  if (!param) {
+    return `/${escapeRegExp(prefix)}`;
+  }
+  if (param.name === "*") {
+    return `(?:/(?<p${index}>.*))?`;
+  }
+  const source = `/${escapeRegExp(prefix)}(?<p${index}>${param.pattern.source.slice(1, -1)})`;
+  return param.optional ? `(?:${source})?` : source;
+};
+
+const compiled = new Map<string, CompiledRoute>();
+
+const compile = (pattern: string): CompiledRoute => {
+  const cached = compiled.get(pattern);
+  if (cached) {
+    return cached;
+  }
+  const segments = pattern
+    .split("/")
+    .filter((segment) => segment !== "")
+    .map((segment) => compileSegment(segment));
+  const route = {
+    regex: new RegExp(
+      `^${segments.map((segment, index) => segmentSource(segment, index)).join("")}/?$`,
+    ),
+    segments,
+  };
+  compiled.set(pattern, route);
+  return route;
+};
+
+const coerce = (value: string, type: keyof ParamTypes): string | number | boolean => {
+  if (type === "number") {
+    return Number(value);
+  }
+  return type === "boolean" ? value === "true" : value;
+};
+
+/**
+ * Parse a path template into its segments.
+ * @example
+ * ```ts
+ * parsePath("/users/:id<number>/posts/:slug?");
+ * // [{ prefix: "users" }, { prefix: "", param: { name: "id", type: "number", ... } }, { prefix: "posts" }, { prefix: "", param: { name: "slug", optional: true, ... } }]
+ * ```
+ */
+export const parsePath = (pattern: string): readonly PathSegment[] => compile(pattern).segments;
+
+// Malformed percent-encoding makes the URL unmatchable rather than throwing a URIError.
+const decode = (value: string, wildcard: boolean): string | null => {
+  try {
+    return wildcard ? decodeURI(value) : decodeURIComponent(value);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Match a URL or pathname against a path template, returning typed params or null.
+ * Typed params are coerced, so `:id<number>` yields a number; malformed percent-encoding yields null.
+ * @example
+ * ```ts
+ * matchRoute("/users/:id<number>", "/users/42?tab=posts"); // { id: 42 }
+ * matchRoute("/users/:id<number>", "/users/john"); // null
+ * ```
+ */
+export const matchRoute = <Pattern extends string>(
+  pattern: Pattern,
+  url: string,
+): RouteParams<Pattern> | null => {
+  const { regex, segments } = compile(pattern);
+  const match = regex.exec(new URL(url, "http://localhost").pathname);
+  if (!match) {
+    return null;
+  }
+  const params: Record<string, string | number | boolean> = {};
+  for (const [index, { param }] of segments.entries()) {
+    const value = match.groups?.[`p${index}`] ?? (param?.name === "*" ? "" : undefined);
+    if (param && value !== undefined) {
+      const decoded = decode(value, param.name === "*");
+      if (decoded === null) {
+        return null;
+      }
+      params[param.name] = coerce(decoded, param.type);
+    }
+  }
+  return params as RouteParams<Pattern>;
+};
+
+const formatParam = (param: CompiledParam, value: unknown, pattern: string): string => {
+  const text = String(value);
+  if (param.name === "*") {
+    return text
+      .split("/")
+      .map((part) => encodeURIComponent(part))
+      .join("/");
+  }
+  if (!param.pattern.test(text)) {
+    throw new TypeError(
+      `Invalid path param "${param.name}" for ${pattern}: received ${JSON.stringify(value)}`,
+    );
+  }
+  return encodeURIComponent(text);
+};
+
+/**
+ * Fill a path template with params. Missing required params are a compile-time error;
+ * omitted optional segments are dropped.
+ * @example
+ * ```ts
+ * buildPath("/users/:id<number>/posts/:slug?", { id: 42 }); // "/users/42/posts"
+ * buildPath("/users/:id", {}); // Type error
+ * ```
+ */
+export const buildPath = <Pattern extends string>(
+  pattern: Pattern,
+  ...[params]: ParamArgs<Pattern>
+): string => {
+  const values: Record<string, unknown> = params ?? {};
+  const parts: string[] = [];
+  for (const { prefix, param } of compile(pattern).segments) {
+    const value = param ? values[param.name] : undefined;
+    if (!param) {
+      parts.push(prefix);
+    } else if (value !== undefined) {
+      parts.push(prefix + formatParam(param, value, pattern));
+    } else if (!param.optional) {
+      throw new TypeError(`Missing path param "${param.name}" for ${pattern}`);
+    }
+  }
+  return `/${parts.join("/")}`;
+};
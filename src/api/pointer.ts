@@ -0,0 +1,241 @@
+type EscapeToken<S extends string> = S extends `${infer Head}~${infer Tail}`
+  ? `${EscapeSlash<Head>}~0${EscapeToken<Tail>}`
+  : EscapeSlash<S>;
+
+type EscapeSlash<S extends string> = S extends `${infer Head}/${infer Tail}`
+  ? `${Head}~1${EscapeSlash<Tail>}`
+  : S;
+
+type UnescapeToken<S extends string> = S extends `${infer Head}~1${infer Tail}`
+  ? UnescapeToken<`${Head}/${Tail}`>
+  : S extends `${infer Head}~0${infer Tail}`
+    ? `${Head}~${UnescapeToken<Tail>}`
+    : S;
+
+type ChildKey<T> = T extends readonly unknown[]
+  ? number extends T["length"]
+    ? number
+    : Extract<keyof T, `${number}`>
+  : Exclude<keyof T, symbol>;
+
+type MaxDepth = 8;
+
+type PointerPaths<T, Depth extends unknown[]> = Depth["length"] extends MaxDepth
+  ? `/${string}`
+  : T extends object
+    ? string extends ChildKey<T>
+      ? `/${string}` | `/${string}${PointerPaths<T[string & keyof T], [...Depth, unknown]>}`
+      : {
+          [K in ChildKey<T>]:
+            | `/${EscapeToken<`${K}`>}`
+            | `/${EscapeToken<`${K}`>}${PointerPaths<T[K & keyof T], [...Depth, unknown]>}`;
+        }[ChildKey<T>]
+    : never;
+
+/**
+ * Every RFC 6901 JSON Pointer into a typed document, with `~` and `/` in keys escaped as `~0` and `~1`.
+ * Index signatures accept any key and keep typing the paths below it, and recursive types are expanded a few levels deep.
+ * @example
+ * ```ts
+ * type Pointer = JsonPointer<{ user: { tags: string[] }; "a/b": number }>;
+ * // "" | "/user" | "/user/tags" | `/user/tags/${number}` | "/a~1b"
+ * ```
+ */
+export type JsonPointer<T> = "" | PointerPaths<T, []>;
+
+type PointerChild<T, Token extends string> = T extends undefined | null
+  ? undefined
+  : T extends readonly unknown[]
+    ? Token extends keyof T
+      ? T[Token]
+      : Token extends `${number}`
+        ? T[number] | undefined
+        : never
+    : Token extends keyof T
+      ? T[Token]
+      : string extends keyof T
+        ? T[string & keyof T] | undefined
+        : never;
+
+/**
+ * Type of the value a JSON Pointer refers to.
+ * Array items and index-signature entries include `undefined`, since they may be missing.
+ * @example
+ * ```ts
+ * type Value = PointerValue<{ user: { tags: string[] } }, "/user/tags/0">; // string | undefined
+ * ```
+ */
+export type PointerValue<T, Pointer extends string> = Pointer extends ""
+  ? T
+  : Pointer extends `/${infer Token}/${infer Rest}`
+    ? PointerValue<PointerChild<T, UnescapeToken<Token>>, `/${Rest}`>
+    : Pointer extends `/${infer Token}`
+      ? PointerChild<T, UnescapeToken<Token>>
+      : never;
+
+/**
+ * Error thrown when a JSON Pointer is malformed or does not resolve in a document.
+ * @example
+ * ```ts
+ * try {
+ *   removeByPointer({ a: 1 }, "/b");
+ * } catch (error) {
+ *   if (error instanceof JsonPointerError) error.pointer; // "/b"
+ * }
+ * ```
+ */
+export class JsonPointerError extends Error {
+  readonly pointer: string;
+
+  constructor(pointer: string, reason: string) {
+    super(`Invalid JSON Pointer "${pointer}": ${reason}`);
+    this.name = "JsonPointerError";
+    this.pointer = pointer;
+  }
+}
+
+const ARRAY_INDEX = /^(?:0|[1-9]\d*)$/;
+
+const parsePointer = (pointer: string): string[] => {
+  if (pointer === "") {
+    return [];
+  }
+  if (!pointer.startsWith("/")) {
+    throw new JsonPointerError(pointer, "must be empty or start with '/'");
+  }
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((token) => token.replaceAll("~1", "/").replaceAll("~0", "~"));
+};
+
+const isContainer = (value: unknown): value is Record<string, unknown> | unknown[] =>
+  typeof value === "object" && value !== null;
+
+const childOf = (parent: unknown, token: string): unknown => {
+  if (Array.isArray(parent)) {
+    return ARRAY_INDEX.test(token) ? parent[Number(token)] : undefined;
+  }
+  return isContainer(parent) && Object.hasOwn(parent, token)
+    ? (parent as Record<string, unknown>)[token]
+    : undefined;
+};
+
+// Defined rather than assigned, so a "__proto__" token becomes an own key instead of replacing the prototype.
+const setOwn = (container: Record<string, unknown>, key: string, value: unknown): void => {
+  Object.defineProperty(container, key, {
+    configurable: true,
+    enumerable: true,
+    value,
+    writable: true,
+  });
+};
+
+const arrayIndex = (array: unknown[], token: string, pointer: string, insert: boolean): number => {
+  const limit = insert ? array.length : array.length - 1;
+  const index = token === "-" && insert ? array.length : Number(token);
+  if ((token !== "-" || !insert) && !ARRAY_INDEX.test(token)) {
+    throw new JsonPointerError(pointer, `"${token}" is not an array index`);
+  }
+  if (index > limit) {
+    throw new JsonPointerError(pointer, `index ${token} is out of bounds`);
+  }
+  return index;
+};
+
+const update = (
+  parent: unknown,
+  tokens: string[],
+  pointer: string,
+  change: (container: Record<string, unknown> | unknown[], token: string) => void,
+): unknown => {
+  const [token = "", ...rest] = tokens;
+  if (!isContainer(parent)) {
+    throw new JsonPointerError(pointer, `cannot resolve "${token}" in a non-container value`);
+  }
+  const copy = Array.isArray(parent) ? [...parent] : { ...parent };
+  if (rest.length === 0) {
+    change(copy, token);
+    return copy;
+  }
+  const child = childOf(parent, token);
+  if (child === undefined) {
+    throw new JsonPointerError(pointer, `"${token}" does not exist`);
+  }
+  if (Array.isArray(copy)) {
+    copy[Number(token)] = update(child, rest, pointer, change);
+  } else {
+    setOwn(copy, token, update(child, rest, pointer, change));
+  }
+  return copy;
+};
+
+/**
+ * Read the value a JSON Pointer refers to, or undefined when it does not exist.
+ * @example
+ * ```ts
+ * getByPointer({ user: { tags: ["a"] } }, "/user/tags/0"); // "a"
+ * ```
+ */
+export const getByPointer = <T, const Pointer extends JsonPointer<T>>(
+  document: T,
+  pointer: Pointer,
+): PointerValue<T, Pointer> =>
+  parsePointer(pointer).reduce<unknown>(
+    (current, token) => childOf(current, token),
+    document,
+  ) as PointerValue<T, Pointer>;
+
+/**
+ * Return a copy of a document with the value at a JSON Pointer replaced.
+ * Array pointers may also use the next index or `-` to append; missing parents throw a JsonPointerError.
+ * @example
+ * ```ts
+ * setByPointer({ user: { name: "John" } }, "/user/name", "Jane"); // { user: { name: "Jane" } }
+ * setByPointer({ user: { name: "John" } }, "/user/name", 1); // Type error
+ * ```
+ */
+export const setByPointer = <T, const Pointer extends JsonPointer<T>>(
+  document: T,
+  pointer: Pointer,
+  value: PointerValue<T, Pointer>,
+): T => {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) {
+    return value as T;
+  }
+  return update(document, tokens, pointer, (container, token) => {
+    if (Array.isArray(container)) {
+      container[arrayIndex(container, token, pointer, true)] = value;
+    } else {
+      setOwn(container, token, value);
+    }
+  }) as T;
+};
+
+/**
+ * Return a copy of a document without the value at a JSON Pointer.
+ * Array items are spliced out; a missing value throws a JsonPointerError.
+ * @example
+ * ```ts
+ * removeByPointer({ tags: ["a", "b"] }, "/tags/0"); // { tags: ["b"] }
+ * ```
+ */
+export const removeByPointer = <T, const Pointer extends JsonPointer<T>>(
+  document: T,
+  pointer: Pointer,
+): T => {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) {
+    throw new JsonPointerError(pointer, "cannot remove the document root");
+  }
+  return update(document, tokens, pointer, (container, token) => {
+    if (Array.isArray(container)) {
+      container.splice(arrayIndex(container, token, pointer, false), 1);
+    } else if (Object.hasOwn(container, token)) {
+      delete container[token];
+    } else {
+      throw new JsonPointerError(pointer, `"${token}" does not exist`);
+    }
+  }) as T;
+};
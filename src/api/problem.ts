@@ -0,0 +1,214 @@
+import { isNumber, isObjectOf, isOptional, isRecord, isString, type Guard } from "../guard";
+import { isStatusCode, statusText, type StatusCode } from "./status";
+
+type ProblemText = { detail?: string; instance?: string };
+
+type ProblemMembers = ProblemText & { type?: string; title?: string };
+
+/**
+ * RFC 9457 Problem Details body, with extension members merged in.
+ * `type` is a URI identifying the problem kind and defaults to "about:blank".
+ * @example
+ * ```ts
+ * type OutOfCredit = ProblemDetails<{ balance: number }, 403, "https://example.com/probs/out-of-credit">;
+ * // { type: "https://example.com/probs/out-of-credit"; title: string; status: 403; detail?: string; instance?: string; balance: number }
+ * ```
+ */
+export type ProblemDetails<
+  Ext extends object = Record<never, never>,
+  Status extends number = StatusCode,
+  Type extends string = string,
+> = {
+  type: Type;
+  title: string;
+  status: Status;
+  detail?: string;
+  instance?: string;
+} & Ext extends infer Problem
+  ? { [K in keyof Problem]: Problem[K] }
+  : never;
+
+const isProblemStatus = (value: unknown): value is StatusCode =>
+  isNumber(value) && isStatusCode(value);
+
+const isProblemMembers = isObjectOf({
+  detail: isOptional(isString),
+  instance: isOptional(isString),
+  status: isProblemStatus,
+  title: isString,
+  type: isString,
+});
+
+/**
+ * Check whether a value is a Problem Details body.
+ * @example
+ * ```ts
+ * const body: unknown = await response.json();
+ * if (isProblemDetails(body)) body.status; // StatusCode
+ * ```
+ */
+export const isProblemDetails: Guard<ProblemDetails> = (value): value is ProblemDetails =>
+  isProblemMembers(value);
+
+const PROBLEM_TEXT = new Set(["type", "title", "detail", "instance"]);
+
+const isHttpStatus = (value: unknown): value is number =>
+  isNumber(value) && Number.isInteger(value) && value >= 100 && value <= 599;
+
+/**
+ * Read incoming Problem Details JSON, applying the RFC defaults for a missing `type` and `title`.
+ * Any status from 100 to 599 is accepted, since gateways send unregistered codes such as 499.
+ * Standard members of the wrong type are ignored, as RFC 9457 requires.
+ * Throws a TypeError if the value is not an object with a status.
+ * @example
+ * ```ts
+ * parseProblem({ status: 404, detail: 5 }); // { type: "about:blank", title: "Not Found", status: 404 }
+ * ```
+ */
+export const parseProblem = (value: unknown): ProblemDetails<Record<string, unknown>, number> => {
+  if (!isRecord(value) || !isHttpStatus(value.status)) {
+    throw new TypeError(`Invalid problem details: received ${JSON.stringify(value)}`);
+  }
+  const { status } = value;
+  const members = Object.entries(value).filter(
+    ([name, member]) => !PROBLEM_TEXT.has(name) || isString(member),
+  );
+  return {
+    title: isStatusCode(status) ? statusText[status] : `Status ${status}`,
+    type: "about:blank",
+    ...Object.fromEntries(members),
+    status,
+  } as ProblemDetails<Record<string, unknown>, number>;
+};
+
+/**
+ * Build a Problem Details body for a status code.
+ * The title defaults to the reason phrase of the status, and `type` to "about:blank".
+ * The status always comes from the first argument, so `init` cannot set one.
+ * @example
+ * ```ts
+ * problem(404, { detail: "User 42 does not exist" });
+ * // { type: "about:blank", title: "Not Found", status: 404, detail: "User 42 does not exist" }
+ * problem(403, { title: "Out of credit", balance: 30 }); // ProblemDetails<{ balance: number }, 403>
+ * ```
+ */
+export const problem = <
+  const Status extends StatusCode,
+  Init extends ProblemMembers & { status?: never } & Record<string, unknown> = Record<never, never>,
+>(
+  status: Status,
+  init?: Init,
+): ProblemDetails<Omit<Init, keyof ProblemMembers>, Status> =>
+  ({
+    title: statusText[status],
+    type: "about:blank",
+    ...init,
+    status,
+  }) as unknown as ProblemDetails<Omit<Init, keyof ProblemMembers>, Status>;
+
+/**
+ * Registered problem kind: a fixed type URI and status with typed extension members.
+ * @example
+ * ```ts
+ * type NotFound = ProblemKind<"https://example.com/probs/not-found", 404, { resource: string }>;
+ * ```
+ */
+export type ProblemKind<
+  Type extends string = string,
+  Status extends StatusCode = StatusCode,
+  Ext extends object = Record<never, never>,
+> = {
+  readonly type: Type;
+  readonly status: Status;
+  readonly title: string;
+  create: (
+    ...init: Record<never, never> extends Ext
+      ? [init?: Ext & ProblemText]
+      : [init: Ext & ProblemText]
+  ) => ProblemDetails<Ext, Status, Type>;
+  is: Guard<ProblemDetails<Ext, Status, Type>>;
+};
+
+/**
+ * Problem Details type described by a problem kind, or a union of kinds.
+ * @example
+ * ```ts
+ * type Problem = ProblemOf<typeof NotFound | typeof OutOfCredit>;
+ * ```
+ */
+export type ProblemOf<Kind> =
+  Kind extends ProblemKind<infer Type, infer Status, infer Ext>
+    ? ProblemDetails<Ext, Status, Type>
+    : never;
+
+/**
+ * Define a typed problem kind whose extension members are checked by a runtime guard.
+ * @example
+ * ```ts
+ * const NotFound = defineProblem({
+ *   type: "https://example.com/probs/not-found",
+ *   status: 404,
+ *   extension: isObjectOf({ resource: isString }),
+ * });
+ * NotFound.create({ resource: "user" }); // { type: "https://…/not-found", title: "Not Found", status: 404, resource: "user" }
+ * ```
+ */
+export const defineProblem = <
+  const Type extends string,
+  const Status extends StatusCode,
+  Ext extends object = Record<never, never>,
+>(kind: {
+  type: Type;
+  status: Status;
+  title?: string;
+  extension?: Guard<Ext>;
+}): ProblemKind<Type, Status, Ext> => {
+  const { type, status, title = statusText[status], extension } = kind;
+  return {
+    create: (...[init]) =>
+      ({ ...init, status, title, type }) as unknown as ProblemDetails<Ext, Status, Type>,
+    is: (value): value is ProblemDetails<Ext, Status, Type> =>
+      isProblemDetails(value) &&
+      value.type === type &&
+      value.status === status &&
+      (extension?.(value) ?? true),
+    status,
+    title,
+    type,
+  };
+};
+
+/**
+ * Set of registered problem kinds, returned by defineProblems.
+ * @example
+ * ```ts
+ * type Problems = ProblemRegistry<[typeof NotFound, typeof OutOfCredit]>;
+ * ```
+ */
+export type ProblemRegistry<Kinds extends readonly ProblemKind<string, StatusCode, any>[]> = {
+  readonly kinds: Kinds;
+  is: Guard<ProblemOf<Kinds[number]>>;
+};
+
+/**
+ * Register problem kinds so incoming problems narrow by `type`.
+ * @example
+ * ```ts
+ * const problems = defineProblems(NotFound, OutOfCredit);
+ * if (problems.is(body)) {
+ *   switch (body.type) {
+ *     case NotFound.type:
+ *       body.resource; // string
+ *       break;
+ *     case OutOfCredit.type:
+ *       body.balance; // number
+ *   }
+ * }
+ * ```
+ */
+export const defineProblems = <const Kinds extends readonly ProblemKind<string, StatusCode, any>[]>(
+  ...kinds: Kinds
+): ProblemRegistry<Kinds> => ({
+  is: (value): value is ProblemOf<Kinds[number]> => kinds.some((kind) => kind.is(value)),
+  kinds,
+});
@@ -0,0 +1,227 @@
+type QueryPrimitive = string | number | boolean;
+
+type QueryValue<V> = V extends readonly (infer Item)[]
+  ? QueryValue<Item>[]
+  : V extends QueryPrimitive
+    ? V
+    : V extends Record<string, any>
+      ? QueryParams<V>
+      : never;
+
+/**
+ * Type query parameters from an object. Every key is optional; numbers, booleans,
+ * string-literal unions, arrays and nested objects keep their types.
+ * @example
+ * ```ts
+ * type Params = QueryParams<{ page: number; sort: "asc" | "desc"; tags: string[] }>;
+ * // { page?: number; sort?: "asc" | "desc"; tags?: string[] }
+ * ```
+ */
+export type QueryParams<T extends Record<string, any>> = {
+  [K in keyof T]?: QueryValue<T[K]>;
+};
+
+type QueryFieldTypes = {
+  string: string;
+  number: number;
+  boolean: boolean;
+  "string[]": string[];
+  "number[]": number[];
+  "boolean[]": boolean[];
+};
+
+/**
+ * Runtime description of one query parameter: a type name, a tuple of allowed literals,
+ * or a nested spec read from `a[b]=c` keys.
+ * @example
+ * ```ts
+ * const page: QueryFieldSpec = "number";
+ * const sort: QueryFieldSpec = ["asc", "desc"];
+ * ```
+ */
+export type QueryFieldSpec = keyof QueryFieldTypes | readonly [string, ...string[]] | QuerySpec;
+
+/**
+ * Runtime description of a query string, used by parseQuery.
+ * @example
+ * ```ts
+ * const spec = { page: "number", tags: "string[]", filter: { status: ["open", "closed"] } } satisfies QuerySpec;
+ * ```
+ */
+export type QuerySpec = { readonly [key: string]: QueryFieldSpec };
+
+type QueryFieldType<Field> = Field extends keyof QueryFieldTypes
+  ? QueryFieldTypes[Field]
+  : Field extends readonly string[]
+    ? Field[number]
+    : Field extends QuerySpec
+      ? QueryOf<Field>
+      : never;
+
+/**
+ * Object type described by a query spec.
+ * @example
+ * ```ts
+ * type Query = QueryOf<{ page: "number"; sort: ["asc", "desc"] }>; // { page: number; sort: "asc" | "desc" }
+ * ```
+ */
+export type QueryOf<Spec extends QuerySpec> = { [K in keyof Spec]: QueryFieldType<Spec[K]> };
+
+type RawQuery = { [key: string]: string[] | RawQuery };
+
+const splitKey = (key: string): string[] => {
+  const [head = "", ...rest] = key.split("[");
+  const path = [head, ...rest.map((part) => part.replace(/\]$/, ""))];
+  return path.at(-1) === "" && path.length > 1 ? path.slice(0, -1) : path;
+};
+
+const UNSAFE_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+const createRaw = (): RawQuery => Object.create(null) as RawQuery;
+
+const insert = (raw: RawQuery, path: string[], value: string, prefix = ""): void => {
+  const [key = "", ...rest] = path;
+  const name = prefix ? `${prefix}[${key}]` : key;
+  const node = Object.hasOwn(raw, key) ? raw[key] : undefined;
+  if (node !== undefined && Array.isArray(node) !== (rest.length === 0)) {
+    throw new TypeError(`Invalid query param "${name}": cannot be both a value and nested keys`);
+  }
+  if (rest.length === 0) {
+    raw[key] = Array.isArray(node) ? [...node, value] : [value];
+    return;
+  }
+  const child = node && !Array.isArray(node) ? node : createRaw();
+  raw[key] = child;
+  insert(child, rest, value, name);
+};
+
+const invalid = (name: string, expected: string, received: unknown): TypeError =>
+  new TypeError(
+    `Invalid query param "${name}": expected ${expected}, received ${JSON.stringify(received)}`,
+  );
+
+const toNumber = (name: string, value: string): number => {
+  const number = Number(value);
+  if (value.trim() === "" || Number.isNaN(number)) {
+    throw invalid(name, "a number", value);
+  }
+  return number;
+};
+
+const toBoolean = (name: string, value: string): boolean => {
+  if (value === "true" || value === "1") {
+    return true;
+  }
+  if (value === "false" || value === "0") {
+    return false;
+  }
+  throw invalid(name, "a boolean", value);
+};
+
+const coerce = (name: string, type: string, value: string): QueryPrimitive => {
+  if (type === "number") {
+    return toNumber(name, value);
+  }
+  return type === "boolean" ? toBoolean(name, value) : value;
+};
+
+const readField = (name: string, field: QueryFieldSpec, node: string[] | RawQuery): unknown => {
+  if (Array.isArray(node) !== (typeof field === "string" || Array.isArray(field))) {
+    throw invalid(name, Array.isArray(node) ? "nested keys" : "a value", node);
+  }
+  if (!Array.isArray(node)) {
+    return readQuery(node, field as QuerySpec, name);
+  }
+  const [first = ""] = node;
+  if (Array.isArray(field)) {
+    if (!field.includes(first)) {
+      throw invalid(
+        name,
+        `one of ${field.map((option) => JSON.stringify(option)).join(", ")}`,
+        first,
+      );
+    }
+    return first;
+  }
+  const type = field as string;
+  return type.endsWith("[]")
+    ? node.map((value) => coerce(name, type.slice(0, -2), value))
+    : coerce(name, type, first);
+};
+
+const readQuery = (raw: RawQuery, spec: QuerySpec, prefix: string): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(spec)) {
+    const node = Object.hasOwn(raw, key) ? raw[key] : undefined;
+    if (node !== undefined) {
+      result[key] = readField(prefix ? `${prefix}[${key}]` : key, field, node);
+    }
+  }
+  return result;
+};
+
+/**
+ * Parse a query string against a spec, coercing values and reading repeated keys and `a[b]=c` notation.
+ * Keys missing from the search are omitted; values that cannot be coerced, and keys given both as a value
+ * and with nested keys, throw a TypeError.
+ * @example
+ * ```ts
+ * parseQuery("?page=2&tags=a&tags=b&filter[status]=open", {
+ *   page: "number",
+ *   tags: "string[]",
+ *   filter: { status: ["open", "closed"] },
+ * }); // { page: 2, tags: ["a", "b"], filter: { status: "open" } }
+ * ```
+ */
+export const parseQuery = <const Spec extends QuerySpec>(
+  search: string | URLSearchParams,
+  spec: Spec,
+): QueryParams<QueryOf<Spec>> => {
+  const raw = createRaw();
+  for (const [key, value] of new URLSearchParams(search)) {
+    const path = splitKey(key);
+    if (!path.some((segment) => UNSAFE_KEYS.has(segment))) {
+      insert(raw, path, value);
+    }
+  }
+  return readQuery(raw, spec, "") as QueryParams<QueryOf<Spec>>;
+};
+
+const encodeEntries = (prefix: string, value: unknown): string[] => {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((item: unknown) => encodeEntries(prefix, item));
+  }
+  if (typeof value === "object" && "toJSON" in value && typeof value.toJSON === "function") {
+    return encodeEntries(prefix, value.toJSON());
+  }
+  if (typeof value === "object") {
+    const proto: unknown = Object.getPrototypeOf(value);
+    if (proto !== Object.prototype && proto !== null) {
+      throw new TypeError(
+        `Invalid query param "${prefix}": cannot serialize ${value.constructor.name}`,
+      );
+    }
+    return Object.entries(value).flatMap(([key, item]) =>
+      encodeEntries(`${prefix}[${encodeURIComponent(key)}]`, item),
+    );
+  }
+  return [`${prefix}=${encodeURIComponent(String(value))}`];
+};
+
+/**
+ * Serialize query params, repeating keys for arrays and using `a[b]=c` for nested objects.
+ * Undefined and null values are skipped, values with `toJSON()` such as Date are serialized through it,
+ * and other class instances throw a TypeError. The result has no leading `?`.
+ * @example
+ * ```ts
+ * stringifyQuery({ page: 2, tags: ["a", "b"], filter: { status: "open" } });
+ * // "page=2&tags=a&tags=b&filter[status]=open"
+ * ```
+ */
+export const stringifyQuery = (query: object): string =>
+  Object.entries(query)
+    .flatMap(([key, value]) => encodeEntries(encodeURIComponent(key), value))
+    .join("&");
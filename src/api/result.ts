@@ -0,0 +1,112 @@
+/**
+ * Successful branch of an ApiResult.
+ * @example
+ * ```ts
+ * type Success = ApiOk<{ id: string }>; // { success: true; data: { id: string } }
+ * ```
+ */
+export type ApiOk<T> = { success: true; data: T };
+
+/**
+ * Failed branch of an ApiResult.
+ * @example
+ * ```ts
+ * type Failure = ApiErr<"NOT_FOUND">; // { success: false; error: "NOT_FOUND" }
+ * ```
+ */
+export type ApiErr<E> = { success: false; error: E };
+
+/**
+ * Discriminated API result: checking `success` narrows to either `data` or `error`.
+ * @example
+ * ```ts
+ * type Result = ApiResult<{ id: string }, "NOT_FOUND">;
+ * // { success: true; data: { id: string } } | { success: false; error: "NOT_FOUND" }
+ * ```
+ */
+export type ApiResult<T, E = string> = ApiOk<T> | ApiErr<E>;
+
+/**
+ * Create a successful result.
+ * @example
+ * ```ts
+ * const result = ok({ id: "1" }); // ApiOk<{ id: string }>
+ * ```
+ */
+export const ok = <T>(data: T): ApiOk<T> => ({ data, success: true });
+
+/**
+ * Create a failed result.
+ * @example
+ * ```ts
+ * const result = err("NOT_FOUND"); // ApiErr<string>
+ * ```
+ */
+export const err = <E>(error: E): ApiErr<E> => ({ error, success: false });
+
+/**
+ * Check whether a result succeeded.
+ * @example
+ * ```ts
+ * if (isOk(result)) result.data;
+ * ```
+ */
+export const isOk = <T, E>(result: ApiResult<T, E>): result is ApiOk<T> => result.success;
+
+/**
+ * Check whether a result failed.
+ * @example
+ * ```ts
+ * if (isErr(result)) result.error;
+ * ```
+ */
+export const isErr = <T, E>(result: ApiResult<T, E>): result is ApiErr<E> => !result.success;
+
+/**
+ * Transform the data of a successful result, leaving failures untouched.
+ * @example
+ * ```ts
+ * const names = map(result, (users) => users.map((user) => user.name)); // ApiResult<string[], E>
+ * ```
+ */
+export const map = <T, E, U>(result: ApiResult<T, E>, fn: (data: T) => U): ApiResult<U, E> =>
+  result.success ? ok(fn(result.data)) : result;
+
+/**
+ * Transform the error of a failed result, leaving successes untouched.
+ * @example
+ * ```ts
+ * const mapped = mapErr(result, (code) => ({ code })); // ApiResult<T, { code: E }>
+ * ```
+ */
+export const mapErr = <T, E, F>(result: ApiResult<T, E>, fn: (error: E) => F): ApiResult<T, F> =>
+  result.success ? result : err(fn(result.error));
+
+/**
+ * Get the data of a successful result, or a fallback for a failed one.
+ * @example
+ * ```ts
+ * const users = unwrapOr(result, []); // User[]
+ * ```
+ */
+export const unwrapOr = <T, E, U = T>(result: ApiResult<T, E>, fallback: U): T | U =>
+  result.success ? result.data : fallback;
+
+/**
+ * Settle a promise into an ApiResult instead of throwing.
+ * Rejections are passed through mapError, or kept as `unknown` errors.
+ * @example
+ * ```ts
+ * const result = await fromPromise(fetchUser(id), (error) => String(error)); // ApiResult<User, string>
+ * ```
+ */
+export const fromPromise = async <T, E = unknown>(
+  promise: PromiseLike<T>,
+  mapError: (error: unknown) => E = (error) => error as E,
+): Promise<ApiResult<T, E>> => {
+  try {
+    return ok(await promise);
+  } catch (error) {
+    return err(mapError(error));
+  }
+};
@@ -0,0 +1,89 @@
+import type { Guard, GuardType } from "../guard";
+import type { HttpMethod } from "./basic";
+import type { RouteParams } from "./path";
+import type { StatusCode } from "./status";
+
+/**
+ * Runtime guards describing the responses of a route, keyed by status code.
+ * @example
+ * ```ts
+ * type Responses = RouteResponses; // { 200?: Guard<unknown>; 404?: Guard<unknown>; ... }
+ * ```
+ */
+export type RouteResponses = { [S in StatusCode]?: Guard<unknown> };
+
+/**
+ * Contract describing one endpoint: method, path template, query, body and responses.
+ * Query, body and response payloads are described with runtime guards, so their types are inferred.
+ * @example
+ * ```ts
+ * type Contract = RouteContract<"GET", "/users/:id">;
+ * ```
+ */
+export type RouteContract<
+  Method extends HttpMethod = HttpMethod,
+  Path extends string = string,
+  Responses extends RouteResponses = RouteResponses,
+> = {
+  readonly method: Method;
+  readonly path: Path;
+  readonly query?: Guard<unknown>;
+  readonly body?: Guard<unknown>;
+  readonly responses: Responses;
+};
+
+type ContractPart<R extends RouteContract, Key extends "query" | "body"> =
+  R[Key] extends Guard<unknown> ? { [K in Key]: GuardType<R[Key]> } : Record<never, never>;
+
+/**
+ * Input received by a route handler: path params from the path template, plus query and body when declared.
+ * @example
+ * ```ts
+ * type Input = RouteInput<typeof getUser>; // { params: { id: string }; query: { expand?: string } }
+ * ```
+ */
+export type RouteInput<R extends RouteContract> = { params: RouteParams<R["path"]> } & ContractPart<
+  R,
+  "query"
+> &
+  ContractPart<R, "body"> extends infer Input
+  ? { [K in keyof Input]: Input[K] }
+  : never;
+
+/**
+ * Union of the responses a route can send, discriminated by status code.
+ * @example
+ * ```ts
+ * type Response = RouteResponse<typeof getUser>;
+ * // { status: 200; body: User } | { status: 404; body: { message: string } }
+ * ```
+ */
+export type RouteResponse<R extends RouteContract> = {
+  [S in keyof R["responses"]]: { status: S; body: GuardType<R["responses"][S]> };
+}[keyof R["responses"]];
+
+/**
+ * Handler implementing a route contract.
+ * @example
+ * ```ts
+ * const handler: RouteHandler<typeof getUser> = ({ params }) => ({ status: 200, body: findUser(params.id) });
+ * ```
+ */
+export type RouteHandler<R extends RouteContract> = (
+  input: RouteInput<R>,
+) => RouteResponse<R> | Promise<RouteResponse<R>>;
+
+/**
+ * Define a route contract shared by server and client code.
+ * The method, path and status codes are kept as literal types.
+ * @example
+ * ```ts
+ * const getUser = defineRoute({
+ *   method: "GET",
+ *   path: "/users/:id",
+ *   query: isObjectOf({ expand: isOptional(isString) }),
+ *   responses: { 200: isUser, 404: isObjectOf({ message: isString }) },
+ * });
+ * ```
+ */
+export const defineRoute = <const R extends RouteContract>(route: R): R => route;
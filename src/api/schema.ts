@@ -0,0 +1,211 @@
+import {
+  isArrayOf,
+  isBoolean,
+  isLiteral,
+  isNull,
+  isNumber,
+  isObjectOf,
+  isOptional,
+  isString,
+  isUnionOf,
+  type Guard,
+  type GuardType,
+  type OptionalGuard,
+} from "../guard";
+import type { JsonValue } from "./basic";
+
+/**
+ * Subset of JSON Schema 2020-12, the schema dialect of OpenAPI 3.1.
+ * @example
+ * ```ts
+ * const schema: JsonSchema = { type: "object", properties: { id: { type: "string" } }, required: ["id"] };
+ * ```
+ */
+export type JsonSchema = {
+  type?: "string" | "number" | "integer" | "boolean" | "null" | "object" | "array";
+  description?: string;
+  format?: string;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  enum?: JsonValue[];
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  anyOf?: JsonSchema[];
+};
+
+/**
+ * Runtime guard that also carries the JSON Schema of the values it accepts.
+ * Schemas can be used anywhere a guard is expected, such as in route contracts.
+ * @example
+ * ```ts
+ * const isUser: Schema<{ id: string }> = objectSchema({ id: stringSchema() });
+ * isUser.schema; // { type: "object", properties: { id: { type: "string" } }, required: ["id"] }
+ * ```
+ */
+export type Schema<T> = Guard<T> & { readonly schema: JsonSchema };
+
+type SchemaShape = Record<string, Schema<unknown>>;
+
+type Annotations = Pick<JsonSchema, "description">;
+
+/**
+ * Attach a JSON Schema to an existing guard, for values the schema helpers cannot describe.
+ * @example
+ * ```ts
+ * const isUserId = withSchema(isUUID, { type: "string", format: "uuid" }); // Schema<UUID>
+ * ```
+ */
+export const withSchema = <T>(guard: Guard<T>, schema: JsonSchema): Schema<T> =>
+  Object.assign((value: unknown): value is T => guard(value), { schema });
+
+/**
+ * Read the JSON Schema of a guard; plain guards accept anything, so they give `{}`.
+ * @example
+ * ```ts
+ * toJsonSchema(stringSchema()); // { type: "string" }
+ * toJsonSchema(isString); // {}
+ * ```
+ */
+export const toJsonSchema = (guard: Guard<unknown> | undefined): JsonSchema =>
+  guard && "schema" in guard ? (guard.schema as JsonSchema) : {};
+
+/**
+ * Schema for strings, with optional length and pattern constraints that are also checked at runtime.
+ * `format` is only documented.
+ * @example
+ * ```ts
+ * const isSlug = stringSchema({ pattern: "^[a-z-]+$", maxLength: 64 });
+ * ```
+ */
+export const stringSchema = (
+  options: Pick<JsonSchema, "format" | "pattern" | "minLength" | "maxLength"> & Annotations = {},
+): Schema<string> => {
+  const { pattern, minLength = 0, maxLength = Infinity } = options;
+  const regex = pattern === undefined ? undefined : new RegExp(pattern, "u");
+  return withSchema(
+    (value): value is string =>
+      isString(value) &&
+      value.length >= minLength &&
+      value.length <= maxLength &&
+      (regex?.test(value) ?? true),
+    { type: "string", ...options },
+  );
+};
+
+const rangeGuard =
+  (integer: boolean, { minimum = -Infinity, maximum = Infinity }: JsonSchema): Guard<number> =>
+  (value): value is number =>
+    isNumber(value) &&
+    (!integer || Number.isInteger(value)) &&
+    value >= minimum &&
+    value <= maximum;
+
+/**
+ * Schema for numbers, with an optional range.
+ * @example
+ * ```ts
+ * const isPrice = numberSchema({ minimum: 0 });
+ * ```
+ */
+export const numberSchema = (
+  options: Pick<JsonSchema, "minimum" | "maximum"> & Annotations = {},
+): Schema<number> => withSchema(rangeGuard(false, options), { type: "number", ...options });
+
+/**
+ * Schema for integers, with an optional range.
+ * @example
+ * ```ts
+ * const isAge = integerSchema({ minimum: 0, maximum: 150 });
+ * ```
+ */
+export const integerSchema = (
+  options: Pick<JsonSchema, "minimum" | "maximum"> & Annotations = {},
+): Schema<number> => withSchema(rangeGuard(true, options), { type: "integer", ...options });
+
+/**
+ * Schema for booleans.
+ * @example
+ * ```ts
+ * const isActive = booleanSchema();
+ * ```
+ */
+export const booleanSchema = (options: Annotations = {}): Schema<boolean> =>
+  withSchema(isBoolean, { type: "boolean", ...options });
+
+/**
+ * Schema for null.
+ * @example
+ * ```ts
+ * const isNothing = nullSchema();
+ * ```
+ */
+export const nullSchema = (options: Annotations = {}): Schema<null> =>
+  withSchema(isNull, { type: "null", ...options });
+
+/**
+ * Schema matching one of the given JSON literals.
+ * @example
+ * ```ts
+ * const isRole = literalSchema("admin", "member"); // Schema<"admin" | "member">
+ * ```
+ */
+export const literalSchema = <const T extends readonly (string | number | boolean | null)[]>(
+  ...values: T
+): Schema<T[number]> => withSchema(isLiteral(...values), { enum: [...values] });
+
+/**
+ * Schema for arrays whose items all match a schema.
+ * @example
+ * ```ts
+ * const isTags = arraySchema(stringSchema()); // Schema<string[]>
+ * ```
+ */
+export const arraySchema = <T>(items: Schema<T>, options: Annotations = {}): Schema<T[]> =>
+  withSchema(isArrayOf(items), { items: items.schema, type: "array", ...options });
+
+/**
+ * Mark a property schema as optional inside objectSchema.
+ * @example
+ * ```ts
+ * const isUser = objectSchema({ id: stringSchema(), nick: optionalSchema(stringSchema()) });
+ * // Schema<{ id: string; nick?: string | undefined }>
+ * ```
+ */
+export const optionalSchema = <T>(schema: Schema<T>): OptionalGuard<T> & Schema<T | undefined> =>
+  Object.assign(isOptional(schema), { schema: schema.schema });
+
+/**
+ * Schema for objects whose properties match the given schemas; extra properties are allowed.
+ * @example
+ * ```ts
+ * const isUser = objectSchema({ id: stringSchema({ format: "uuid" }), age: optionalSchema(integerSchema()) });
+ * ```
+ */
+export const objectSchema = <S extends SchemaShape>(
+  shape: S,
+  options: Annotations = {},
+): Schema<GuardType<ReturnType<typeof isObjectOf<S>>>> => {
+  const entries = Object.entries(shape);
+  return withSchema(isObjectOf(shape), {
+    properties: Object.fromEntries(entries.map(([key, schema]) => [key, schema.schema])),
+    required: entries.filter(([, schema]) => !("optional" in schema)).map(([key]) => key),
+    type: "object",
+    ...options,
+  });
+};
+
+/**
+ * Schema matching any of the given schemas.
+ * @example
+ * ```ts
+ * const isId = unionSchema(stringSchema(), integerSchema()); // Schema<string | number>
+ * ```
+ */
+export const unionSchema = <S extends Schema<unknown>[]>(
+  ...schemas: S
+): Schema<GuardType<S[number]>> =>
+  withSchema(isUnionOf(...schemas), { anyOf: schemas.map((schema) => schema.schema) });
@@ -0,0 +1,198 @@
+/**
+ * Reason phrase for every status code in the IANA HTTP status code registry.
+ * @example
+ * ```ts
+ * statusText[404]; // "Not Found"
+ * ```
+ */
+export const statusText = {
+  100: "Continue",
+  101: "Switching Protocols",
+  102: "Processing",
+  103: "Early Hints",
+  200: "OK",
+  201: "Created",
+  202: "Accepted",
+  203: "Non-Authoritative Information",
+  204: "No Content",
+  205: "Reset Content",
+  206: "Partial Content",
+  207: "Multi-Status",
+  208: "Already Reported",
+  226: "IM Used",
+  300: "Multiple Choices",
+  301: "Moved Permanently",
+  302: "Found",
+  303: "See Other",
+  304: "Not Modified",
+  305: "Use Proxy",
+  307: "Temporary Redirect",
+  308: "Permanent Redirect",
+  400: "Bad Request",
+  401: "Unauthorized",
+  402: "Payment Required",
+  403: "Forbidden",
+  404: "Not Found",
+  405: "Method Not Allowed",
+  406: "Not Acceptable",
+  407: "Proxy Authentication Required",
+  408: "Request Timeout",
+  409: "Conflict",
+  410: "Gone",
+  411: "Length Required",
+  412: "Precondition Failed",
+  413: "Content Too Large",
+  414: "URI Too Long",
+  415: "Unsupported Media Type",
+  416: "Range Not Satisfiable",
+  417: "Expectation Failed",
+  418: "I'm a teapot",
+  421: "Misdirected Request",
+  422: "Unprocessable Content",
+  423: "Locked",
+  424: "Failed Dependency",
+  425: "Too Early",
+  426: "Upgrade Required",
+  428: "Precondition Required",
+  429: "Too Many Requests",
+  431: "Request Header Fields Too Large",
+  451: "Unavailable For Legal Reasons",
+  500: "Internal Server Error",
+  501: "Not Implemented",
+  502: "Bad Gateway",
+  503: "Service Unavailable",
+  504: "Gateway Timeout",
+  505: "HTTP Version Not Supported",
+  506: "Variant Also Negotiates",
+  507: "Insufficient Storage",
+  508: "Loop Detected",
+  510: "Not Extended",
+  511: "Network Authentication Required",
+} as const;
+
+/**
+ * HTTP status codes from the IANA registry.
+ * @example
+ * ```ts
+ * type Code = StatusCode; // 100 | 101 | ... | 200 | 201 | ... | 511
+ * ```
+ */
+export type StatusCode = keyof typeof statusText;
+
+type StatusClass<Digit extends string> = {
+  [S in StatusCode]: `${S}` extends `${Digit}${string}` ? S : never;
+}[StatusCode];
+
+/**
+ * Informational (1xx) status codes.
+ * @example
+ * ```ts
+ * type Code = InformationalStatus; // 100 | 101 | 102 | 103
+ * ```
+ */
+export type InformationalStatus = StatusClass<"1">;
+
+/**
+ * Success (2xx) status codes.
+ * @example
+ * ```ts
+ * type Code = SuccessStatus; // 200 | 201 | 202 | 203 | 204 | ...
+ * ```
+ */
+export type SuccessStatus = StatusClass<"2">;
+
+/**
+ * Redirection (3xx) status codes.
+ * @example
+ * ```ts
+ * type Code = RedirectStatus; // 300 | 301 | 302 | 303 | 304 | ...
+ * ```
+ */
+export type RedirectStatus = StatusClass<"3">;
+
+/**
+ * Client error (4xx) status codes.
+ * @example
+ * ```ts
+ * type Code = ClientErrorStatus; // 400 | 401 | 402 | 403 | 404 | ...
+ * ```
+ */
+export type ClientErrorStatus = StatusClass<"4">;
+
+/**
+ * Server error (5xx) status codes.
+ * @example
+ * ```ts
+ * type Code = ServerErrorStatus; // 500 | 501 | 502 | 503 | 504 | ...
+ * ```
+ */
+export type ServerErrorStatus = StatusClass<"5">;
+
+/**
+ * Reason phrase of a status code as a literal type.
+ * @example
+ * ```ts
+ * type Text = StatusText<404>; // "Not Found"
+ * ```
+ */
+export type StatusText<Code extends StatusCode> = (typeof statusText)[Code];
+
+/**
+ * Check whether a number is a registered HTTP status code.
+ * @example
+ * ```ts
+ * if (isStatusCode(response.status)) statusText[response.status];
+ * ```
+ */
+export const isStatusCode = (code: number): code is StatusCode => Object.hasOwn(statusText, code);
+
+const isStatusClass =
+  <S extends StatusCode>(digit: number) =>
+  (code: number): code is S =>
+    isStatusCode(code) && Math.floor(code / 100) === digit;
+
+/**
+ * Check whether a status code is informational (1xx).
+ * @example
+ * ```ts
+ * isInformationalStatus(103); // true
+ * ```
+ */
+export const isInformationalStatus = isStatusClass<InformationalStatus>(1);
+
+/**
+ * Check whether a status code is a success (2xx).
+ * @example
+ * ```ts
+ * const status: StatusCode = response.status;
+ * if (isSuccessStatus(status)) status; // SuccessStatus
+ * ```
+ */
+export const isSuccessStatus = isStatusClass<SuccessStatus>(2);
+
+/**
+ * Check whether a status code is a redirect (3xx).
+ * @example
+ * ```ts
+ * isRedirectStatus(301); // true
+ * ```
+ */
+export const isRedirectStatus = isStatusClass<RedirectStatus>(3);
+
+/**
+ * Check whether a status code is a client error (4xx).
+ * @example
+ * ```ts
+ * isClientErrorStatus(404); // true
+ * ```
+ */
+export const isClientErrorStatus = isStatusClass<ClientErrorStatus>(4);
+
+/**
+ * Check whether a status code is a server error (5xx).
+ * @example
+ * ```ts
+ * isServerErrorStatus(503); // true
+ * ```
+ */
+export const isServerErrorStatus = isStatusClass<ServerErrorStatus>(5);
@@ -0,0 +1,140 @@
+declare const brandSymbol: unique symbol;
+
+/**
+ * Marker object carrying brand names as keys, so several brands can be stacked on one value.
+ * @example
+ * ```ts
+ * type Tag = BrandTag<"Int">; // { readonly [brandSymbol]: { readonly Int: true } }
+ * ```
+ */
+export type BrandTag<Name extends string> = {
+  readonly [brandSymbol]: { readonly [K in Name]: true };
+};
+
+/**
+ * Create a nominal (branded) type to prevent implicit coercion.
+ * Brands stack: a value can carry several brands at once.
+ * @example
+ * ```ts
+ * type UserId = Brand<number, "UserId">;
+ * type ProductId = Brand<number, "ProductId">;
+ * // UserId and ProductId are incompatible even though both are numbers
+ * type PositiveInt = Brand<Int, "PositiveNumber">; // assignable to both Int and PositiveNumber
+ * ```
+ */
+export type Brand<T, Name extends string> = T & BrandTag<Name>;
+
+/**
+ * Extract the names of all brands applied to a type.
+ * @example
+ * ```ts
+ * type Names = BrandsOf<Brand<Int, "PositiveNumber">>; // "Int" | "PositiveNumber"
+ * type None = BrandsOf<number>; // never
+ * ```
+ */
+export type BrandsOf<T> = T extends { readonly [brandSymbol]: infer Tags }
+  ? keyof Tags & string
+  : never;
+
+/**
+ * Check if a type carries a given brand.
+ * @example
+ * ```ts
+ * type Check1 = HasBrand<Brand<Int, "PositiveNumber">, "Int">; // true
+ * type Check2 = HasBrand<Int, "PositiveNumber">; // false
+ * ```
+ */
+export type HasBrand<T, Name extends string> = [Name] extends [BrandsOf<T>] ? true : false;
+
+/**
+ * Remove every brand from a type, recovering the underlying type.
+ * @example
+ * ```ts
+ * type Base = Unbrand<Brand<Int, "PositiveNumber">>; // number
+ * type Plain = Unbrand<string>; // string
+ * ```
+ */
+export type Unbrand<T> = T extends { readonly [brandSymbol]: infer Tags }
+  ? {
+      [K in keyof Tags]: T extends Brand<infer Base, K & string> ? Unbrand<Base> : never;
+    }[keyof Tags]
+  : T;
+
+/**
+ * Create a nominal type (alias for Brand).
+ * @example
+ * ```ts
+ * type UserId = Nominal<number, "UserId">;
+ * ```
+ */
+export type Nominal<T, Name extends string> = Brand<T, Name>;
+
+/**
+ * Create a branded ID type.
+ * @example
+ * ```ts
+ * type UserId = Id<"user">;
+ * type PostId = Id<"post">;
+ * ```
+ */
+export type Id<T extends string = string> = Brand<string, `${T}:id`>;
+
+/**
+ * UUID type (branded string).
+ * @example
+ * ```ts
+ * type Uuid = UUID;
+ * // Represents a valid UUID string (use constructor for validation)
+ * ```
+ */
+export type UUID = Brand<string, "UUID">;
+
+/**
+ * Email type (branded string).
+ * @example
+ * ```ts
+ * type Email = Email;
+ * // Represents a valid email string (use constructor for validation)
+ * ```
+ */
+export type Email = Brand<string, "Email">;
+
+/**
+ * Non-empty string type.
+ * @example
+ * ```ts
+ * type NonEmpty = NonEmptyString;
+ * // Cannot be an empty string
+ * ```
+ */
+export type NonEmptyString = Brand<string, "NonEmptyString">;
+
+/**
+ * Positive number type.
+ * @example
+ * ```ts
+ * type Positive = PositiveNumber;
+ * // Must be > 0
+ * ```
+ */
+export type PositiveNumber = Brand<number, "PositiveNumber">;
+
+/**
+ * Negative number type.
+ * @example
+ * ```ts
+ * type Negative = NegativeNumber;
+ * // Must be < 0
+ * ```
+ */
+export type NegativeNumber = Brand<number, "NegativeNumber">;
+
+/**
+ * Integer type (no decimal places).
+ * @example
+ * ```ts
+ * type Integer = Int;
+ * // Must be a whole number
+ * ```
+ */
+export type Int = Brand<number, "Int">;
@@ -0,0 +1,251 @@
+import type { Brand } from "./basic";
+import type { IsHexColor, IsIpv4, IsIsoDate, IsSemVer, IsSlug } from "./literal";
+import { createBrandValidator } from "./validate";
+
+/**
+ * Accept a string literal only when the format check passes.
+ * Non-literal strings are rejected so they go through the runtime guard instead.
+ */
+type CheckedLiteral<S extends string, Valid extends boolean> = string extends S
+  ? never
+  : Valid extends true
+    ? S
+    : never;
+
+/**
+ * ISO 8601 calendar date string (YYYY-MM-DD).
+ * @example
+ * ```ts
+ * const date: IsoDate = asIsoDate("2024-02-29");
+ * ```
+ */
+export type IsoDate = Brand<string, "IsoDate">;
+
+/**
+ * Hex color string (#rgb, #rgba, #rrggbb or #rrggbbaa).
+ * @example
+ * ```ts
+ * const color: HexColor = asHexColor("#ff8800");
+ * ```
+ */
+export type HexColor = Brand<string, "HexColor">;
+
+/**
+ * Semantic version string (MAJOR.MINOR.PATCH with optional pre-release and build metadata).
+ * @example
+ * ```ts
+ * const version: SemVer = asSemVer("1.4.0-beta.2+build.7");
+ * ```
+ */
+export type SemVer = Brand<string, "SemVer">;
+
+/**
+ * URL slug (lowercase letters and digits separated by single hyphens).
+ * @example
+ * ```ts
+ * const slug: Slug = asSlug("hello-world");
+ * ```
+ */
+export type Slug = Brand<string, "Slug">;
+
+/**
+ * IPv4 address in dotted-decimal notation.
+ * @example
+ * ```ts
+ * const address: Ipv4 = asIpv4("192.168.0.1");
+ * ```
+ */
+export type Ipv4 = Brand<string, "Ipv4">;
+
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const HEX_COLOR_PATTERN = /^#(?:[\da-f]{3,4}|[\da-f]{6}|[\da-f]{8})$/i;
+const SEMVER_PATTERN =
+  /^(?:0|[1-9]\d*)\.(?:0|[1-9]\d*)\.(?:0|[1-9]\d*)(?:-[\da-z-]+(?:\.[\da-z-]+)*)?(?:\+[\da-z-]+(?:\.[\da-z-]+)*)?$/i;
+const SLUG_PATTERN = /^[\da-z]+(?:-[\da-z]+)*$/;
+const IPV4_PATTERN =
+  /^(?:(?:25[0-5]|2[0-4]\d|1\d{2}|[1-9]?\d)\.){3}(?:25[0-5]|2[0-4]\d|1\d{2}|[1-9]?\d)$/;
+
+const isCalendarDate = (value: string): boolean => {
+  const match = ISO_DATE_PATTERN.exec(value);
+  if (!match) {
+    return false;
+  }
+  const [, year, month, day] = match.map(Number) as [number, number, number, number];
+  // Date.UTC maps years 0-99 to 1900-1999, so the year is set separately.
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  return (
+    date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+  );
+};
+
+const matches = (pattern: RegExp) => (value: unknown) =>
+  typeof value === "string" && pattern.test(value);
+
+const isoDate = createBrandValidator<IsoDate>(
+  "IsoDate",
+  "an ISO 8601 date (YYYY-MM-DD)",
+  (value) => typeof value === "string" && isCalendarDate(value),
+);
+const hexColor = createBrandValidator<HexColor>(
+  "HexColor",
+  "a hex color",
+  matches(HEX_COLOR_PATTERN),
+);
+const semVer = createBrandValidator<SemVer>(
+  "SemVer",
+  "a semantic version",
+  matches(SEMVER_PATTERN),
+);
+const slug = createBrandValidator<Slug>(
+  "Slug",
+  "a lowercase hyphenated slug",
+  matches(SLUG_PATTERN),
+);
+const ipv4 = createBrandValidator<Ipv4>("Ipv4", "an IPv4 address", matches(IPV4_PATTERN));
+
+/**
+ * Brand a string literal as an IsoDate, rejecting invalid dates at compile time.
+ * @example
+ * ```ts
+ * const date = asIsoDate("2024-02-29"); // IsoDate
+ * const invalid = asIsoDate("2024-13-01"); // Type error
+ * ```
+ */
+export const asIsoDate = <S extends string>(value: S & CheckedLiteral<S, IsIsoDate<S>>): IsoDate =>
+  isoDate.parse(value);
+
+/**
+ * Check whether a runtime value is an ISO 8601 calendar date.
+ * @example
+ * ```ts
+ * if (isIsoDate(input)) input; // IsoDate
+ * ```
+ */
+export const isIsoDate = isoDate.is;
+
+/**
+ * Validate a runtime value as an IsoDate, throwing a BrandError if it is not one.
+ * @example
+ * ```ts
+ * const date = parseIsoDate(request.query.from); // IsoDate
+ * ```
+ */
+export const parseIsoDate = isoDate.parse;
+
+/**
+ * Brand a string literal as a HexColor, rejecting invalid colors at compile time.
+ * @example
+ * ```ts
+ * const color = asHexColor("#ff8800"); // HexColor
+ * const invalid = asHexColor("#ff880"); // Type error
+ * ```
+ */
+export const asHexColor = <S extends string>(
+  value: S & CheckedLiteral<S, IsHexColor<S>>,
+): HexColor => hexColor.parse(value);
+
+/**
+ * Check whether a runtime value is a hex color.
+ * @example
+ * ```ts
+ * if (isHexColor(input)) input; // HexColor
+ * ```
+ */
+export const isHexColor = hexColor.is;
+
+/**
+ * Validate a runtime value as a HexColor, throwing a BrandError if it is not one.
+ * @example
+ * ```ts
+ * const color = parseHexColor(settings.accent); // HexColor
+ * ```
+ */
+export const parseHexColor = hexColor.parse;
+
+/**
+ * Brand a string literal as a SemVer, rejecting invalid versions at compile time.
+ * @example
+ * ```ts
+ * const version = asSemVer("1.4.0"); // SemVer
+ * const invalid = asSemVer("1.4"); // Type error
+ * ```
+ */
+export const asSemVer = <S extends string>(value: S & CheckedLiteral<S, IsSemVer<S>>): SemVer =>
+  semVer.parse(value);
+
+/**
+ * Check whether a runtime value is a semantic version.
+ * @example
+ * ```ts
+ * if (isSemVer(input)) input; // SemVer
+ * ```
+ */
+export const isSemVer = semVer.is;
+
+/**
+ * Validate a runtime value as a SemVer, throwing a BrandError if it is not one.
+ * @example
+ * ```ts
+ * const version = parseSemVer(pkg.version); // SemVer
+ * ```
+ */
+export const parseSemVer = semVer.parse;
+
+/**
+ * Brand a string literal as a Slug, rejecting invalid slugs at compile time.
+ * @example
+ * ```ts
+ * const slug = asSlug("hello-world"); // Slug
+ * const invalid = asSlug("Hello World"); // Type error
+ * ```
+ */
+export const asSlug = <S extends string>(value: S & CheckedLiteral<S, IsSlug<S>>): Slug =>
+  slug.parse(value);
+
+/**
+ * Check whether a runtime value is a URL slug.
+ * @example
+ * ```ts
+ * if (isSlug(input)) input; // Slug
+ * ```
+ */
+export const isSlug = slug.is;
+
+/**
+ * Validate a runtime value as a Slug, throwing a BrandError if it is not one.
+ * @example
+ * ```ts
+ * const slug = parseSlug(params.slug); // Slug
+ * ```
+ */
+export const parseSlug = slug.parse;
+
+/**
+ * Brand a string literal as an Ipv4, rejecting invalid addresses at compile time.
+ * @example
+ * ```ts
+ * const address = asIpv4("10.0.0.1"); // Ipv4
+ * const invalid = asIpv4("10.0.0.256"); // Type error
+ * ```
+ */
+export const asIpv4 = <S extends string>(value: S & CheckedLiteral<S, IsIpv4<S>>): Ipv4 =>
+  ipv4.parse(value);
+
+/**
+ * Check whether a runtime value is an IPv4 address.
+ * @example
+ * ```ts
+ * if (isIpv4(input)) input; // Ipv4
+ * ```
+ */
+export const isIpv4 = ipv4.is;
+
+/**
+ * Validate a runtime value as an Ipv4, throwing a BrandError if it is not one.
+ * @example
+ * ```ts
+ * const address = parseIpv4(request.headers.get("x-real-ip")); // Ipv4
+ * ```
+ */
+export const parseIpv4 = ipv4.parse;
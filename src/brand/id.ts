@@ -0,0 +1,115 @@
+import type { Brand } from "./basic";
+import { createBrandValidator, type BrandValidator } from "./validate";
+
+const ENCODING = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+const TIME_LENGTH = 10;
+const RANDOM_LENGTH = 16;
+const MAX_TIME = 2 ** 48 - 1;
+const ULID_PATTERN = /^[0-7][0-9A-HJKMNP-TV-Z]{25}$/;
+
+/**
+ * Prefixed, sortable ID string such as `user_01J9Z3K4Q8X7V6T5R4P3N2M1B0`.
+ * Also carries the matching Id<T> brand, so it can be used wherever Id<T> is expected.
+ * @example
+ * ```ts
+ * type UserId = PrefixedId<"user">;
+ * type PostId = PrefixedId<"post">;
+ * // UserId and PostId are incompatible
+ * ```
+ */
+export type PrefixedId<Prefix extends string> = Brand<`${Prefix}_${string}`, `${Prefix}:id`>;
+
+/**
+ * Generator and validator for one prefixed ID type, returned by definePrefixedId.
+ * @example
+ * ```ts
+ * type UserIds = PrefixedIdFactory<"user">;
+ * // { prefix: "user"; generate: () => PrefixedId<"user">; parse: ...; is: ...; assert: ... }
+ * ```
+ */
+export type PrefixedIdFactory<Prefix extends string> = BrandValidator<PrefixedId<Prefix>> & {
+  readonly prefix: Prefix;
+  generate: (time?: number) => PrefixedId<Prefix>;
+};
+
+const encodeTime = (time: number): string => {
+  if (!Number.isInteger(time) || time < 0 || time > MAX_TIME) {
+    throw new RangeError(
+      `ULID time must be an integer between 0 and ${MAX_TIME}, received ${time}`,
+    );
+  }
+  let remaining = time;
+  let encoded = "";
+  for (let index = 0; index < TIME_LENGTH; index += 1) {
+    encoded = ENCODING.charAt(remaining % ENCODING.length) + encoded;
+    remaining = Math.floor(remaining / ENCODING.length);
+  }
+  return encoded;
+};
+
+const randomDigits = (): number[] =>
+  Array.from(
+    crypto.getRandomValues(new Uint8Array(RANDOM_LENGTH)),
+    (byte) => byte % ENCODING.length,
+  );
+
+const incrementDigits = (digits: number[]): number[] => {
+  const next = [...digits];
+  for (let index = next.length - 1; index >= 0; index -= 1) {
+    const digit = (next[index] ?? 0) + 1;
+    if (digit < ENCODING.length) {
+      next[index] = digit;
+      return next;
+    }
+    next[index] = 0;
+  }
+  throw new RangeError("ULID random component overflowed within one millisecond");
+};
+
+let lastTime = -1;
+let lastRandom: number[] = [];
+
+/**
+ * Generate a ULID: 26 Crockford base32 characters that sort by creation time.
+ * IDs generated within the same millisecond stay strictly increasing.
+ * @example
+ * ```ts
+ * const id = ulid(); // "01J9Z3K4Q8X7V6T5R4P3N2M1B0"
+ * ```
+ */
+export const ulid = (time: number = Date.now()): string => {
+  const encodedTime = encodeTime(time);
+  lastRandom = time === lastTime ? incrementDigits(lastRandom) : randomDigits();
+  lastTime = time;
+  return encodedTime + lastRandom.map((digit) => ENCODING.charAt(digit)).join("");
+};
+
+/**
+ * Define a prefixed ID type with a sortable generator and a validating parser.
+ * @example
+ * ```ts
+ * const UserId = definePrefixedId("user");
+ * type UserId = PrefixedId<"user">;
+ *
+ * const id = UserId.generate(); // "user_01J9Z3K4Q8X7V6T5R4P3N2M1B0"
+ * UserId.parse("post_01J9Z3K4Q8X7V6T5R4P3N2M1B0"); // throws BrandError
+ * ```
+ */
+export const definePrefixedId = <Prefix extends string>(
+  prefix: Prefix,
+): PrefixedIdFactory<Prefix> => {
+  const separator = `${prefix}_`;
+  const validator = createBrandValidator<PrefixedId<Prefix>>(
+    `${prefix}:id`,
+    `a "${separator}" prefixed ULID`,
+    (value) =>
+      typeof value === "string" &&
+      value.startsWith(separator) &&
+      ULID_PATTERN.test(value.slice(separator.length)),
+  );
+  return {
+    ...validator,
+    generate: (time) => validator.parse(separator + ulid(time)),
+    prefix,
+  };
+};
@@ -0,0 +1,180 @@
+type Digit = "0" | "1" | "2" | "3" | "4" | "5" | "6" | "7" | "8" | "9";
+type NonZeroDigit = Exclude<Digit, "0">;
+type LowerAlpha =
+  | "a"
+  | "b"
+  | "c"
+  | "d"
+  | "e"
+  | "f"
+  | "g"
+  | "h"
+  | "i"
+  | "j"
+  | "k"
+  | "l"
+  | "m"
+  | "n"
+  | "o"
+  | "p"
+  | "q"
+  | "r"
+  | "s"
+  | "t"
+  | "u"
+  | "v"
+  | "w"
+  | "x"
+  | "y"
+  | "z";
+type Alphanumeric = Digit | LowerAlpha | Uppercase<LowerAlpha>;
+type HexDigit = Digit | "a" | "b" | "c" | "d" | "e" | "f" | "A" | "B" | "C" | "D" | "E" | "F";
+
+type Month = "01" | "02" | "03" | "04" | "05" | "06" | "07" | "08" | "09" | "10" | "11" | "12";
+type Day = `0${NonZeroDigit}` | `1${Digit}` | `2${Digit}` | "30" | "31";
+type ShortMonth = "02" | "04" | "06" | "09" | "11";
+type EvenDigit = "0" | "2" | "4" | "6" | "8";
+type DivisibleBy4<S extends string> = S extends
+  | `${EvenDigit}${"0" | "4" | "8"}`
+  | `${Exclude<Digit, EvenDigit>}${"2" | "6"}`
+  ? true
+  : false;
+type IsLeapYear<Year extends string> =
+  Year extends `${infer Century}${infer C}${infer Y}${infer Rest}`
+    ? `${Y}${Rest}` extends "00"
+      ? DivisibleBy4<`${Century}${C}`>
+      : DivisibleBy4<`${Y}${Rest}`>
+    : false;
+type Octet =
+  | Digit
+  | `${NonZeroDigit}${Digit}`
+  | `1${Digit}${Digit}`
+  | `2${"0" | "1" | "2" | "3" | "4"}${Digit}`
+  | `25${"0" | "1" | "2" | "3" | "4" | "5"}`;
+
+type IsCharsIn<S extends string, C extends string> = S extends `${C}${infer Rest}`
+  ? Rest extends ""
+    ? true
+    : IsCharsIn<Rest, C>
+  : false;
+
+type StringLength<S extends string, Acc extends unknown[] = []> = S extends `${string}${infer Rest}`
+  ? StringLength<Rest, [...Acc, unknown]>
+  : Acc["length"];
+
+type IsNumericIdentifier<S extends string> = S extends "0"
+  ? true
+  : S extends `${NonZeroDigit}${infer Rest}`
+    ? Rest extends ""
+      ? true
+      : IsCharsIn<Rest, Digit>
+    : false;
+
+type IsDotSeparated<S extends string> = S extends `${infer Head}.${infer Rest}`
+  ? IsCharsIn<Head, Alphanumeric | "-"> extends true
+    ? IsDotSeparated<Rest>
+    : false
+  : IsCharsIn<S, Alphanumeric | "-">;
+
+type IsSemVerCore<S extends string> = S extends `${infer Major}.${infer Minor}.${infer Patch}`
+  ? [IsNumericIdentifier<Major>, IsNumericIdentifier<Minor>, IsNumericIdentifier<Patch>] extends [
+      true,
+      true,
+      true,
+    ]
+    ? true
+    : false
+  : false;
+
+type IsSemVerWithPrerelease<S extends string> = S extends `${infer Core}-${infer Prerelease}`
+  ? IsSemVerCore<Core> extends true
+    ? IsDotSeparated<Prerelease>
+    : false
+  : IsSemVerCore<S>;
+
+/**
+ * Check if a string literal is a valid ISO 8601 calendar date, including leap years.
+ * @example
+ * ```ts
+ * type Check1 = IsIsoDate<"2024-02-29">; // true
+ * type Check2 = IsIsoDate<"2023-02-29">; // false
+ * type Check3 = IsIsoDate<"2024-13-01">; // false
+ * ```
+ */
+export type IsIsoDate<S extends string> = S extends `${infer Year}-${infer M}-${infer D}`
+  ? [IsCharsIn<Year, Digit>, StringLength<Year>] extends [true, 4]
+    ? M extends Month
+      ? D extends Day
+        ? D extends "31"
+          ? M extends ShortMonth
+            ? false
+            : true
+          : [D, M] extends ["30", "02"]
+            ? false
+            : [D, M] extends ["29", "02"]
+              ? IsLeapYear<Year>
+              : true
+        : false
+      : false
+    : false
+  : false;
+
+/**
+ * Check if a string literal is a valid hex color.
+ * @example
+ * ```ts
+ * type Check1 = IsHexColor<"#ff8800">; // true
+ * type Check2 = IsHexColor<"#ff88">; // true
+ * type Check3 = IsHexColor<"ff8800">; // false
+ * ```
+ */
+export type IsHexColor<S extends string> = S extends `#${infer Hex}`
+  ? IsCharsIn<Hex, HexDigit> extends true
+    ? StringLength<Hex> extends 3 | 4 | 6 | 8
+      ? true
+      : false
+    : false
+  : false;
+
+/**
+ * Check if a string literal is a valid semantic version.
+ * @example
+ * ```ts
+ * type Check1 = IsSemVer<"1.4.0-beta.2+build.7">; // true
+ * type Check2 = IsSemVer<"01.4.0">; // false
+ * ```
+ */
+export type IsSemVer<S extends string> = S extends `${infer Version}+${infer Build}`
+  ? IsSemVerWithPrerelease<Version> extends true
+    ? IsDotSeparated<Build>
+    : false
+  : IsSemVerWithPrerelease<S>;
+
+/**
+ * Check if a string literal is a valid URL slug.
+ * @example
+ * ```ts
+ * type Check1 = IsSlug<"hello-world">; // true
+ * type Check2 = IsSlug<"Hello--World">; // false
+ * ```
+ */
+export type IsSlug<S extends string> = S extends
+  | `-${string}`
+  | `${string}-`
+  | `${string}--${string}`
+  ? false
+  : IsCharsIn<S, Digit | LowerAlpha | "-">;
+
+/**
+ * Check if a string literal is a valid IPv4 address.
+ * @example
+ * ```ts
+ * type Check1 = IsIpv4<"192.168.0.1">; // true
+ * type Check2 = IsIpv4<"256.0.0.1">; // false
+ * ```
+ */
+export type IsIpv4<S extends string> = S extends `${infer A}.${infer B}.${infer C}.${infer D}`
+  ? [A, B, C, D] extends [Octet, Octet, Octet, Octet]
+    ? true
+    : false
+  : false;
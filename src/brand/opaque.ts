@@ -0,0 +1,57 @@
+declare const opaqueSymbol: unique symbol;
+
+/**
+ * Create an opaque type that hides the underlying type.
+ * The token lives under a module-private symbol, so object literals cannot forge it.
+ * @example
+ * ```ts
+ * type SessionToken = Opaque<string, "SessionToken">;
+ * // Only defineOpaque's wrap (or an explicit cast) can create SessionToken values
+ * ```
+ */
+export type Opaque<T, Token extends string> = T & { readonly [opaqueSymbol]: Token };
+
+/**
+ * Factory returned by defineOpaque for creating and reading opaque values.
+ * @example
+ * ```ts
+ * type Factory = OpaqueFactory<string, "SessionToken">;
+ * // { token: "SessionToken"; wrap: (value: string) => Opaque<string, "SessionToken">; unwrap: ... }
+ * ```
+ */
+export type OpaqueFactory<T, Token extends string> = {
+  readonly token: Token;
+  wrap: (value: T) => Opaque<T, Token>;
+  unwrap: (value: Opaque<T, Token>) => T;
+};
+
+/**
+ * Extract the opaque type produced by an OpaqueFactory.
+ * @example
+ * ```ts
+ * const SessionToken = defineOpaque<string>()("SessionToken");
+ * type SessionToken = OpaqueOf<typeof SessionToken>; // Opaque<string, "SessionToken">
+ * ```
+ */
+export type OpaqueOf<F> = F extends OpaqueFactory<infer T, infer Token> ? Opaque<T, Token> : never;
+
+/**
+ * Define an opaque type and the functions that convert to and from it.
+ * Keep `wrap` inside the owning module and export only the type and `unwrap`,
+ * so no other code can create values.
+ * @example
+ * ```ts
+ * const SessionToken = defineOpaque<string>()("SessionToken");
+ * type SessionToken = OpaqueOf<typeof SessionToken>;
+ *
+ * const token = SessionToken.wrap(crypto.randomUUID()); // SessionToken
+ * const raw = SessionToken.unwrap(token); // string
+ * ```
+ */
+export const defineOpaque =
+  <T>() =>
+  <Token extends string>(token: Token): OpaqueFactory<T, Token> => ({
+    token,
+    unwrap: (value) => value,
+    wrap: (value) => value as Opaque<T, Token>,
+  });
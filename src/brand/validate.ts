@@ -0,0 +1,286 @@
+import type { Email, Int, NegativeNumber, NonEmptyString, PositiveNumber, UUID } from "./basic";
+
+const describeValue = (value: unknown): string => {
+  if (typeof value === "string") {
+    return JSON.stringify(value);
+  }
+  if (typeof value === "bigint") {
+    return `${value}n`;
+  }
+  if (value === null || typeof value !== "object") {
+    return String(value);
+  }
+  return Array.isArray(value) ? "array" : "object";
+};
+
+/**
+ * Error thrown when a value fails a brand's runtime validation.
+ * @example
+ * ```ts
+ * try {
+ *   parseEmail("not-an-email");
+ * } catch (error) {
+ *   if (error instanceof BrandError) error.brand; // "Email"
+ * }
+ * ```
+ */
+export class BrandError extends TypeError {
+  readonly brand: string;
+  readonly value: unknown;
+
+  constructor(brand: string, expected: string, value: unknown) {
+    super(`Invalid ${brand}: expected ${expected}, received ${describeValue(value)}`);
+    this.name = "BrandError";
+    this.brand = brand;
+    this.value = value;
+  }
+}
+
+/**
+ * Runtime validator for a branded type.
+ * @example
+ * ```ts
+ * const validator: BrandValidator<NonEmptyString> = createBrandValidator("NonEmptyString", "a non-empty string", check);
+ * validator.parse(input); // NonEmptyString, or throws BrandError
+ * ```
+ */
+export type BrandValidator<B> = {
+  readonly brand: string;
+  is: (value: unknown) => value is B;
+  parse: (value: unknown) => B;
+  assert: (value: unknown) => asserts value is B;
+};
+
+/**
+ * Create a runtime validator for a branded type from a predicate.
+ * @example
+ * ```ts
+ * type Port = Brand<number, "Port">;
+ * const port = createBrandValidator<Port>("Port", "an integer between 0 and 65535", (value) =>
+ *   Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 65535,
+ * );
+ * const value = port.parse(8080); // Port
+ * ```
+ */
+export const createBrandValidator = <B>(
+  brand: string,
+  expected: string,
+  check: (value: unknown) => boolean,
+): BrandValidator<B> => {
+  const is = (value: unknown): value is B => check(value);
+  const assert: (value: unknown) => asserts value is B = (value) => {
+    if (!is(value)) {
+      throw new BrandError(brand, expected, value);
+    }
+  };
+  const parse = (value: unknown): B => {
+    assert(value);
+    return value;
+  };
+  return { assert, brand, is, parse };
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@.]+(?:\.[^\s@.]+)+$/;
+
+const isString = (value: unknown): value is string => typeof value === "string";
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && !Number.isNaN(value);
+
+const uuid = createBrandValidator<UUID>(
+  "UUID",
+  "a UUID string",
+  (value) => isString(value) && UUID_PATTERN.test(value),
+);
+const email = createBrandValidator<Email>(
+  "Email",
+  "an email address",
+  (value) => isString(value) && EMAIL_PATTERN.test(value),
+);
+const nonEmptyString = createBrandValidator<NonEmptyString>(
+  "NonEmptyString",
+  "a non-empty string",
+  (value) => isString(value) && value.length > 0,
+);
+const positiveNumber = createBrandValidator<PositiveNumber>(
+  "PositiveNumber",
+  "a number greater than 0",
+  (value) => isNumber(value) && value > 0,
+);
+const negativeNumber = createBrandValidator<NegativeNumber>(
+  "NegativeNumber",
+  "a number less than 0",
+  (value) => isNumber(value) && value < 0,
+);
+const int = createBrandValidator<Int>("Int", "an integer", (value) => Number.isInteger(value));
+
+/**
+ * Check whether a value is a UUID string.
+ * @example
+ * ```ts
+ * if (isUUID(input)) input; // UUID
+ * ```
+ */
+export const isUUID = uuid.is;
+
+/**
+ * Validate a value as a UUID, throwing a BrandError if it is not one.
+ * @example
+ * ```ts
+ * const id = parseUUID("3f2b8c1e-9d4a-4b6f-8e2d-1a2b3c4d5e6f"); // UUID
+ * ```
+ */
+export const parseUUID = uuid.parse;
+
+/**
+ * Assert that a value is a UUID, narrowing it in the rest of the scope.
+ * @example
+ * ```ts
+ * assertUUID(input);
+ * input; // UUID
+ * ```
+ */
+export const assertUUID: (value: unknown) => asserts value is UUID = uuid.assert;
+
+/**
+ * Check whether a value is an email address.
+ * @example
+ * ```ts
+ * if (isEmail(input)) input; // Email
+ * ```
+ */
+export const isEmail = email.is;
+
+/**
+ * Validate a value as an email address, throwing a BrandError if it is not one.
+ * @example
+ * ```ts
+ * const address = parseEmail("jane@example.com"); // Email
+ * ```
+ */
+export const parseEmail = email.parse;
+
+/**
+ * Assert that a value is an email address, narrowing it in the rest of the scope.
+ * @example
+ * ```ts
+ * assertEmail(input);
+ * input; // Email
+ * ```
+ */
+export const assertEmail: (value: unknown) => asserts value is Email = email.assert;
+
+/**
+ * Check whether a value is a non-empty string.
+ * @example
+ * ```ts
+ * if (isNonEmptyString(input)) input; // NonEmptyString
+ * ```
+ */
+export const isNonEmptyString = nonEmptyString.is;
+
+/**
+ * Validate a value as a non-empty string, throwing a BrandError if it is not one.
+ * @example
+ * ```ts
+ * const name = parseNonEmptyString("Jane"); // NonEmptyString
+ * ```
+ */
+export const parseNonEmptyString = nonEmptyString.parse;
+
+/**
+ * Assert that a value is a non-empty string, narrowing it in the rest of the scope.
+ * @example
+ * ```ts
+ * assertNonEmptyString(input);
+ * input; // NonEmptyString
+ * ```
+ */
+export const assertNonEmptyString: (value: unknown) => asserts value is NonEmptyString =
+  nonEmptyString.assert;
+
+/**
+ * Check whether a value is a number greater than 0.
+ * @example
+ * ```ts
+ * if (isPositiveNumber(input)) input; // PositiveNumber
+ * ```
+ */
+export const isPositiveNumber = positiveNumber.is;
+
+/**
+ * Validate a value as a positive number, throwing a BrandError if it is not one.
+ * @example
+ * ```ts
+ * const amount = parsePositiveNumber(42); // PositiveNumber
+ * ```
+ */
+export const parsePositiveNumber = positiveNumber.parse;
+
+/**
+ * Assert that a value is a positive number, narrowing it in the rest of the scope.
+ * @example
+ * ```ts
+ * assertPositiveNumber(input);
+ * input; // PositiveNumber
+ * ```
+ */
+export const assertPositiveNumber: (value: unknown) => asserts value is PositiveNumber =
+  positiveNumber.assert;
+
+/**
+ * Check whether a value is a number less than 0.
+ * @example
+ * ```ts
+ * if (isNegativeNumber(input)) input; // NegativeNumber
+ * ```
+ */
+export const isNegativeNumber = negativeNumber.is;
+
+/**
+ * Validate a value as a negative number, throwing a BrandError if it is not one.
+ * @example
+ * ```ts
+ * const delta = parseNegativeNumber(-3); // NegativeNumber
+ * ```
+ */
+export const parseNegativeNumber = negativeNumber.parse;
+
+/**
+ * Assert that a value is a negative number, narrowing it in the rest of the scope.
+ * @example
+ * ```ts
+ * assertNegativeNumber(input);
+ * input; // NegativeNumber
+ * ```
+ */
+export const assertNegativeNumber: (value: unknown) => asserts value is NegativeNumber =
+  negativeNumber.assert;
+
+/**
+ * Check whether a value is an integer.
+ * @example
+ * ```ts
+ * if (isInteger(input)) input; // Int
+ * ```
+ */
+export const isInteger = int.is;
+
+/**
+ * Validate a value as an integer, throwing a BrandError if it is not one.
+ * @example
+ * ```ts
+ * const count = parseInteger(3); // Int
+ * ```
+ */
+export const parseInteger = int.parse;
+
+/**
+ * Assert that a value is an integer, narrowing it in the rest of the scope.
+ * @example
+ * ```ts
+ * assertInteger(input);
+ * input; // Int
+ * ```
+ */
+export const assertInteger: (value: unknown) => asserts value is Int = int.assert;
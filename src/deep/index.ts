@@ -1,5 +1,7 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
+import type { JoinPath, ShapeMismatch, TypeErrorMessage } from "../diagnostics";
+
 /**
  * Deep pick properties from a nested object using dot notation paths.
  * @example
@@ -132,18 +134,34 @@ export type DeepValue<T, Path extends string> = Path extends `${infer Key}.${inf
     ? T[Path]
     : never;
 
+type DeepExactError<T, Shape, Path extends string> = [T, Shape] extends [
+  readonly (infer Item)[],
+  readonly (infer ShapeItem)[],
+]
+  ? DeepExactError<Item, ShapeItem, `${Path}[number]`>
+  : [T, Shape] extends [object, object]
+    ? [ShapeMismatch<T, Shape, Path>] extends [never]
+      ? {
+          [K in keyof T & keyof Shape]: DeepExactError<T[K], Shape[K], JoinPath<Path, K>>;
+        }[keyof T & keyof Shape]
+      : ShapeMismatch<T, Shape, Path>
+    : [T] extends [Shape]
+      ? [Shape] extends [T]
+        ? never
+        : TypeErrorMessage<`${Path extends "" ? "Type" : `Key '${Path}'`} does not match Shape`>
+      : TypeErrorMessage<`${Path extends "" ? "Type" : `Key '${Path}'`} does not match Shape`>;
+
 /**
  * Ensure exact shape match recursively (no extra properties at any depth).
+ * On mismatch, resolves to a TypeErrorMessage naming the offending path.
  * @example
  * ```ts
  * type Shape = { name: string; address: { city: string } };
  * type Exact = DeepExact<{ name: string; address: { city: string } }, Shape>;
+ * type Extra = DeepExact<{ name: string; address: { city: string; zip: string } }, Shape>;
+ * // TypeErrorMessage<"Extra key 'address.zip' not allowed in Shape">
  * ```
  */
-export type DeepExact<T, Shape> = T extends Shape
-  ? Shape extends T
-    ? {
-        [K in keyof T]: T[K] extends object ? DeepExact<T[K], Shape[K & keyof Shape]> : T[K];
-      }
-    : never
-  : never;
+export type DeepExact<T, Shape> = [DeepExactError<T, Shape, "">] extends [never]
+  ? T
+  : DeepExactError<T, Shape, "">;
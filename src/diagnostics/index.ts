@@ -0,0 +1,67 @@
+declare const typeErrorSymbol: unique symbol;
+
+/**
+ * Compile-time error message returned by utilities instead of a silent `never`.
+ * Nothing is assignable to it, and the message shows up in hovers and error text.
+ * @example
+ * ```ts
+ * type Result = Exact<{ name: string; foo: number }, { name: string }>;
+ * // TypeErrorMessage<"Extra key 'foo' not allowed in Shape">
+ * ```
+ */
+export type TypeErrorMessage<Message extends string> = { readonly [typeErrorSymbol]: Message };
+
+/**
+ * Check if a type is a TypeErrorMessage.
+ * @example
+ * ```ts
+ * type Check1 = IsTypeError<TypeErrorMessage<"Oops">>; // true
+ * type Check2 = IsTypeError<string>; // false
+ * ```
+ */
+export type IsTypeError<T> = [T] extends [never]
+  ? false
+  : [T] extends [TypeErrorMessage<string>]
+    ? true
+    : false;
+
+/**
+ * Extract the message of a TypeErrorMessage.
+ * @example
+ * ```ts
+ * type Message = TypeErrorMessageOf<TypeErrorMessage<"Oops">>; // "Oops"
+ * ```
+ */
+export type TypeErrorMessageOf<T> = T extends { readonly [typeErrorSymbol]: infer Message }
+  ? Message
+  : never;
+
+/**
+ * Join a key onto a dotted path used in diagnostic messages.
+ * @example
+ * ```ts
+ * type Path1 = JoinPath<"", "address">; // "address"
+ * type Path2 = JoinPath<"address", "city">; // "address.city"
+ * ```
+ */
+export type JoinPath<Path extends string, Key> = Path extends ""
+  ? `${Key & (string | number)}`
+  : `${Path}.${Key & (string | number)}`;
+
+/**
+ * Describe the key differences between two object types, or `never` when they have the same keys.
+ * @example
+ * ```ts
+ * type Error1 = ShapeMismatch<{ a: 1; foo: 2 }, { a: 1 }>;
+ * // TypeErrorMessage<"Extra key 'foo' not allowed in Shape">
+ * type Error2 = ShapeMismatch<{ a: 1 }, { a: 1; b: 2 }, "user">;
+ * // TypeErrorMessage<"Missing key 'user.b' required by Shape">
+ * ```
+ */
+export type ShapeMismatch<T, Shape, Path extends string = ""> = [
+  Exclude<keyof T, keyof Shape>,
+] extends [never]
+  ? [Exclude<keyof Shape, keyof T>] extends [never]
+    ? never
+    : TypeErrorMessage<`Missing key '${JoinPath<Path, Exclude<keyof Shape, keyof T>>}' required by Shape`>
+  : TypeErrorMessage<`Extra key '${JoinPath<Path, Exclude<keyof T, keyof Shape>>}' not allowed in Shape`>;
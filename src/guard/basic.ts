@@ -0,0 +1,137 @@
+/**
+ * Check if a type is never.
+ * @example
+ * ```ts
+ * type Check1 = IsNever<never>; // true
+ * type Check2 = IsNever<string>; // false
+ * ```
+ */
+export type IsNever<T> = [T] extends [never] ? true : false;
+
+/**
+ * Check if a type is any.
+ * @example
+ * ```ts
+ * type Check1 = IsAny<any>; // true
+ * type Check2 = IsAny<string>; // false
+ * ```
+ */
+export type IsAny<T> = 0 extends 1 & T ? true : false;
+
+/**
+ * Check if a type is unknown.
+ * @example
+ * ```ts
+ * type Check1 = IsUnknown<unknown>; // true
+ * type Check2 = IsUnknown<string>; // false
+ * ```
+ */
+export type IsUnknown<T> = [T] extends [unknown] ? (IsAny<T> extends false ? true : false) : false;
+
+/**
+ * Check if a type is a tuple.
+ * @example
+ * ```ts
+ * type Check1 = IsTuple<[string, number]>; // true
+ * type Check2 = IsTuple<string[]>; // false
+ * ```
+ */
+export type IsTuple<T> = T extends readonly any[]
+  ? number extends T["length"]
+    ? false
+    : true
+  : false;
+
+/**
+ * Check if two types are mutually assignable.
+ * `any` is assignable both ways with everything; use IsEqual for identical-type checks.
+ * @example
+ * ```ts
+ * type Check1 = IsExact<string, string>; // true
+ * type Check2 = IsExact<string | undefined, string>; // false
+ * ```
+ */
+export type IsExact<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false;
+
+/**
+ * Check if two types are identical, telling apart `any`, `readonly` and optional properties.
+ * @example
+ * ```ts
+ * type Check1 = IsEqual<{ a: string }, { a: string }>; // true
+ * type Check2 = IsEqual<any, string>; // false
+ * type Check3 = IsEqual<{ readonly a: string }, { a: string }>; // false
+ * type Check4 = IsEqual<{ a?: string }, { a: string | undefined }>; // false
+ * ```
+ */
+export type IsEqual<A, B> =
+  (<G>() => G extends A ? 1 : 2) extends <G>() => G extends B ? 1 : 2 ? true : false;
+
+/**
+ * Check if a type is anything other than any.
+ * @example
+ * ```ts
+ * type Check1 = IsNotAny<string>; // true
+ * type Check2 = IsNotAny<any>; // false
+ * ```
+ */
+export type IsNotAny<T> = IsAny<T> extends true ? false : true;
+
+/**
+ * Check if a type is exactly null.
+ * @example
+ * ```ts
+ * type Check1 = IsNull<null>; // true
+ * type Check2 = IsNull<string | null>; // false
+ * type Check3 = IsNull<any>; // false
+ * ```
+ */
+export type IsNull<T> = IsEqual<T, null>;
+
+/**
+ * Check if a type is exactly undefined.
+ * @example
+ * ```ts
+ * type Check1 = IsUndefined<undefined>; // true
+ * type Check2 = IsUndefined<string | undefined>; // false
+ * type Check3 = IsUndefined<unknown>; // false
+ * ```
+ */
+export type IsUndefined<T> = IsEqual<T, undefined>;
+
+/**
+ * Check if a type is a function type.
+ * Returns false for any, unknown and never.
+ * @example
+ * ```ts
+ * type Check1 = IsFunction<(x: string) => void>; // true
+ * type Check2 = IsFunction<{ call: () => void }>; // false
+ * ```
+ */
+export type IsFunction<T> =
+  IsAny<T> extends true
+    ? false
+    : IsNever<T> extends true
+      ? false
+      : [T] extends [(...args: never[]) => unknown]
+        ? true
+        : false;
+
+/**
+ * Assert that a type extends to true (for compile-time validation).
+ * @example
+ * ```ts
+ * type Check = AssertTrue<1 extends 1 ? true : false>; // OK
+ * type Failed = AssertTrue<1 extends 2 ? true : false>; // Error
+ * ```
+ */
+export type AssertTrue<T extends true> = T;
+
+/**
+ * Assert that a type extends to false (for compile-time validation).
+ * @example
+ * ```ts
+ * type Check = AssertFalse<1 extends 2 ? true : false>; // OK
+ * type Failed = AssertFalse<1 extends 1 ? true : false>; // Error
+ * ```
+ */
+export type AssertFalse<T extends false> = T;
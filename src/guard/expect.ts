@@ -0,0 +1,50 @@
+import type { IsAny, IsEqual } from "./basic";
+
+type IsMatch<T, U> = IsAny<T> extends true ? IsAny<U> : [T] extends [U] ? true : false;
+
+/**
+ * Chainable compile-time expectations about a type, returned by expectTypeOf.
+ * A failed expectation is a type error at the call site; at runtime every method is a no-op.
+ * @example
+ * ```ts
+ * type Check = ExpectTypeOf<string>;
+ * // { toEqualTypeOf<U>(): true; toMatchTypeOf<U>(): true; parameters: ...; returns: ... }
+ * ```
+ */
+export type ExpectTypeOf<T> = {
+  /** Require T to be identical to U (see IsEqual). */
+  toEqualTypeOf: <U>(
+    ...mismatch: IsEqual<T, U> extends true ? [] : [typesAreNotEqual: never]
+  ) => true;
+  /** Require T to be assignable to U; `any` only matches `any`. */
+  toMatchTypeOf: <U>(
+    ...mismatch: IsMatch<T, U> extends true ? [] : [typeDoesNotMatch: never]
+  ) => true;
+  /** Expectations about the parameter tuple of a function type. */
+  readonly parameters: ExpectTypeOf<T extends (...args: infer P) => unknown ? P : never>;
+  /** Expectations about the return type of a function type. */
+  readonly returns: ExpectTypeOf<T extends (...args: never[]) => infer R ? R : never>;
+};
+
+const expectation: ExpectTypeOf<unknown> = {
+  get parameters() {
+    return expectation;
+  },
+  get returns() {
+    return expectation;
+  },
+  toEqualTypeOf: () => true,
+  toMatchTypeOf: () => true,
+};
+
+/**
+ * Start a compile-time type expectation, either from an explicit type argument or a value.
+ * @example
+ * ```ts
+ * expectTypeOf<{ id: string }>().toEqualTypeOf<{ id: string }>(); // OK
+ * expectTypeOf({ id: "1" }).toMatchTypeOf<{ id: string }>(); // OK
+ * expectTypeOf<any>().toEqualTypeOf<string>(); // Error
+ * expectTypeOf(parseInt).parameters.toEqualTypeOf<[string, number?]>(); // OK
+ * ```
+ */
+export const expectTypeOf = <T>(_value?: T): ExpectTypeOf<T> => expectation as ExpectTypeOf<T>;
@@ -0,0 +1,102 @@
+import type { IsAny, IsNever } from "./basic";
+
+type AllTrue<T> = IsNever<T> extends true ? false : [T] extends [true] ? true : false;
+
+type IsLiteralOf<T, Primitive> =
+  IsAny<T> extends true
+    ? false
+    : IsNever<T> extends true
+      ? false
+      : [T] extends [Primitive]
+        ? [Primitive] extends [T]
+          ? false
+          : true
+        : false;
+
+/**
+ * Check if a type is a template literal pattern such as `user_${string}`.
+ * @example
+ * ```ts
+ * type Check1 = IsTemplateLiteral<`user_${string}`>; // true
+ * type Check2 = IsTemplateLiteral<"user_1">; // false
+ * type Check3 = IsTemplateLiteral<string>; // false
+ * ```
+ */
+export type IsTemplateLiteral<T> =
+  IsLiteralOf<T, string> extends true
+    ? AllTrue<T extends string ? (Record<never, never> extends Record<T, 1> ? true : false) : false>
+    : false;
+
+/**
+ * Check if a type is a string literal (or a union of them), excluding string and template literals.
+ * @example
+ * ```ts
+ * type Check1 = IsStringLiteral<"a" | "b">; // true
+ * type Check2 = IsStringLiteral<string>; // false
+ * type Check3 = IsStringLiteral<`user_${string}`>; // false
+ * ```
+ */
+export type IsStringLiteral<T> =
+  IsLiteralOf<T, string> extends true
+    ? AllTrue<T extends string ? (Record<never, never> extends Record<T, 1> ? false : true) : false>
+    : false;
+
+/**
+ * Check if a type is a number literal (or a union of them), excluding number.
+ * @example
+ * ```ts
+ * type Check1 = IsNumberLiteral<1>; // true
+ * type Check2 = IsNumberLiteral<number>; // false
+ * ```
+ */
+export type IsNumberLiteral<T> = IsLiteralOf<T, number>;
+
+/**
+ * Check if a type is a bigint literal (or a union of them), excluding bigint.
+ * @example
+ * ```ts
+ * type Check1 = IsBigIntLiteral<1n>; // true
+ * type Check2 = IsBigIntLiteral<bigint>; // false
+ * ```
+ */
+export type IsBigIntLiteral<T> = IsLiteralOf<T, bigint>;
+
+/**
+ * Check if a type is `true` or `false`, excluding boolean.
+ * @example
+ * ```ts
+ * type Check1 = IsBooleanLiteral<true>; // true
+ * type Check2 = IsBooleanLiteral<boolean>; // false
+ * ```
+ */
+export type IsBooleanLiteral<T> = IsLiteralOf<T, boolean>;
+
+// A union is a literal when each of its primitive kinds is, so "a" | 1 is checked as "a" and 1 separately.
+type LiteralPart<Part, IsPartLiteral> = IsNever<Part> extends true ? true : IsPartLiteral;
+
+/**
+ * Check if a type is a literal type: a string, number, bigint or boolean literal.
+ * Unions of literals count, including mixed ones such as `"a" | 1`.
+ * Wide primitives and template literal patterns are not literals.
+ * @example
+ * ```ts
+ * type Check1 = IsLiteral<"hello">; // true
+ * type Check2 = IsLiteral<string>; // false
+ * type Check3 = IsLiteral<1 | 2>; // true
+ * type Check4 = IsLiteral<`id_${number}`>; // false
+ * type Check5 = IsLiteral<"a" | 1>; // true
+ * ```
+ */
+export type IsLiteral<T> =
+  IsAny<T> extends true
+    ? false
+    : IsNever<T> extends true
+      ? false
+      : IsNever<Exclude<T, string | number | bigint | boolean>> extends true
+        ? AllTrue<
+            | LiteralPart<Extract<T, string>, IsStringLiteral<Extract<T, string>>>
+            | LiteralPart<Extract<T, number>, IsNumberLiteral<Extract<T, number>>>
+            | LiteralPart<Extract<T, bigint>, IsBigIntLiteral<Extract<T, bigint>>>
+            | LiteralPart<Extract<T, boolean>, IsBooleanLiteral<Extract<T, boolean>>>
+          >
+        : false;
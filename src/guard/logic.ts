@@ -0,0 +1,114 @@
+/*
+ * Type-level boolean algebra for composing guard results.
+ *
+ * Semantics shared by every combinator:
+ * - `true` / `false` behave as usual.
+ * - `boolean` means "could be either", so it propagates unless the other operand decides the
+ *   result (e.g. `And<false, boolean>` is `false`, `And<true, boolean>` is `boolean`).
+ * - `never` counts as `false`, so a composed result is never `never` and cannot slip past AssertTrue.
+ */
+
+type IsTrue<B extends boolean> = [B] extends [never] ? false : [B] extends [true] ? true : false;
+
+type IsFalse<B extends boolean> = [B] extends [false] ? true : false;
+
+/**
+ * Negate a boolean type.
+ * @example
+ * ```ts
+ * type Check1 = Not<true>; // false
+ * type Check2 = Not<boolean>; // boolean
+ * type Check3 = Not<never>; // true
+ * ```
+ */
+export type Not<A extends boolean> =
+  IsTrue<A> extends true ? false : IsFalse<A> extends true ? true : boolean;
+
+/**
+ * True when both operands are true.
+ * @example
+ * ```ts
+ * type Check1 = And<true, true>; // true
+ * type Check2 = And<false, boolean>; // false
+ * type Check3 = And<true, boolean>; // boolean
+ * ```
+ */
+export type And<A extends boolean, B extends boolean> =
+  IsFalse<A> extends true
+    ? false
+    : IsFalse<B> extends true
+      ? false
+      : [IsTrue<A>, IsTrue<B>] extends [true, true]
+        ? true
+        : boolean;
+
+/**
+ * True when at least one operand is true.
+ * @example
+ * ```ts
+ * type Check1 = Or<false, true>; // true
+ * type Check2 = Or<true, boolean>; // true
+ * type Check3 = Or<false, boolean>; // boolean
+ * ```
+ */
+export type Or<A extends boolean, B extends boolean> =
+  IsTrue<A> extends true
+    ? true
+    : IsTrue<B> extends true
+      ? true
+      : [IsFalse<A>, IsFalse<B>] extends [true, true]
+        ? false
+        : boolean;
+
+/**
+ * True when exactly one operand is true.
+ * @example
+ * ```ts
+ * type Check1 = Xor<true, false>; // true
+ * type Check2 = Xor<true, true>; // false
+ * type Check3 = Xor<true, boolean>; // boolean
+ * ```
+ */
+export type Xor<A extends boolean, B extends boolean> = Or<And<A, Not<B>>, And<Not<A>, B>>;
+
+/**
+ * True when every element of a tuple is true; `All<[]>` is true.
+ * Non-tuple arrays give `boolean`, since their length is unknown.
+ * @example
+ * ```ts
+ * type Check1 = All<[true, IsNever<never>, IsAny<any>]>; // true
+ * type Check2 = All<[true, false]>; // false
+ * ```
+ */
+export type All<T extends readonly boolean[]> = number extends T["length"]
+  ? boolean
+  : T extends readonly [infer Head extends boolean, ...infer Rest extends readonly boolean[]]
+    ? And<Head, All<Rest>>
+    : true;
+
+/**
+ * True when at least one element of a tuple is true; `Any<[]>` is false.
+ * Non-tuple arrays give `boolean`, since their length is unknown.
+ * @example
+ * ```ts
+ * type Check1 = Any<[false, IsNever<never>]>; // true
+ * type Check2 = Any<[false, false]>; // false
+ * ```
+ */
+export type Any<T extends readonly boolean[]> = number extends T["length"]
+  ? boolean
+  : T extends readonly [infer Head extends boolean, ...infer Rest extends readonly boolean[]]
+    ? Or<Head, Any<Rest>>
+    : false;
+
+/**
+ * Pick a type based on a boolean condition.
+ * A `boolean` condition yields both branches; `never` yields Else.
+ * @example
+ * ```ts
+ * type Result1 = If<IsNever<never>, "empty", "filled">; // "empty"
+ * type Result2 = If<boolean, "a", "b">; // "a" | "b"
+ * ```
+ */
+export type If<Cond extends boolean, Then, Else = never> =
+  IsTrue<Cond> extends true ? Then : IsFalse<Cond> extends true ? Else : Then | Else;
@@ -0,0 +1,176 @@
+/**
+ * Runtime type guard that narrows an unknown value to T.
+ * @example
+ * ```ts
+ * const isPort: Guard<number> = (value): value is number => Number.isInteger(value);
+ * ```
+ */
+export type Guard<T> = (value: unknown) => value is T;
+
+/**
+ * Guard for an optional value, produced by isOptional.
+ * isObjectOf turns properties checked by an OptionalGuard into optional keys.
+ * @example
+ * ```ts
+ * type Nick = OptionalGuard<string>; // Guard<string | undefined> & { optional: true }
+ * ```
+ */
+export type OptionalGuard<T> = Guard<T | undefined> & { readonly optional: true };
+
+/**
+ * Extract the type narrowed by a guard.
+ * @example
+ * ```ts
+ * const isUser = isObjectOf({ id: isString, age: isNumber });
+ * type User = GuardType<typeof isUser>; // { id: string; age: number }
+ * ```
+ */
+export type GuardType<G> = G extends ((value: unknown) => value is infer T) ? T : never;
+
+type GuardShape = Record<string, Guard<unknown>>;
+
+type OptionalShapeKeys<S extends GuardShape> = {
+  [K in keyof S]: S[K] extends OptionalGuard<unknown> ? K : never;
+}[keyof S];
+
+type ObjectOf<S extends GuardShape> = {
+  [K in keyof S as K extends OptionalShapeKeys<S> ? never : K]: GuardType<S[K]>;
+} & {
+  [K in OptionalShapeKeys<S>]?: GuardType<S[K]>;
+} extends infer O
+  ? { [K in keyof O]: O[K] }
+  : never;
+
+/**
+ * Check whether a value is a string.
+ * @example
+ * ```ts
+ * if (isString(input)) input; // string
+ * ```
+ */
+export const isString: Guard<string> = (value): value is string => typeof value === "string";
+
+/**
+ * Check whether a value is a number (including NaN, matching typeof).
+ * @example
+ * ```ts
+ * if (isNumber(input)) input; // number
+ * ```
+ */
+export const isNumber: Guard<number> = (value): value is number => typeof value === "number";
+
+/**
+ * Check whether a value is a boolean.
+ * @example
+ * ```ts
+ * if (isBoolean(input)) input; // boolean
+ * ```
+ */
+export const isBoolean: Guard<boolean> = (value): value is boolean => typeof value === "boolean";
+
+/**
+ * Check whether a value is null.
+ * @example
+ * ```ts
+ * const isNullableString = isUnionOf(isString, isNull); // Guard<string | null>
+ * ```
+ */
+export const isNull: Guard<null> = (value): value is null => value === null;
+
+/**
+ * Check whether a value is undefined.
+ * @example
+ * ```ts
+ * if (isUndefined(input)) input; // undefined
+ * ```
+ */
+export const isUndefined: Guard<undefined> = (value): value is undefined => value === undefined;
+
+/**
+ * Check whether a value is a non-null, non-array object.
+ * @example
+ * ```ts
+ * if (isRecord(input)) input; // Record<string, unknown>
+ * ```
+ */
+export const isRecord: Guard<Record<string, unknown>> = (value): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Create a guard for arrays whose items all pass a guard.
+ * @example
+ * ```ts
+ * const isTags = isArrayOf(isString); // Guard<string[]>
+ * ```
+ */
+export const isArrayOf =
+  <T>(guard: Guard<T>): Guard<T[]> =>
+  (value): value is T[] =>
+    Array.isArray(value) && value.every((item) => guard(item));
+
+/**
+ * Create a guard for fixed-length tuples, checking each position with its own guard.
+ * @example
+ * ```ts
+ * const isPoint = isTupleOf(isNumber, isNumber); // Guard<[number, number]>
+ * ```
+ */
+export const isTupleOf =
+  <T extends unknown[]>(...guards: { [K in keyof T]: Guard<T[K]> }): Guard<T> =>
+  (value): value is T =>
+    Array.isArray(value) &&
+    value.length === guards.length &&
+    guards.every((guard, index) => guard(value[index]));
+
+/**
+ * Create a guard matching one of the given literal values.
+ * @example
+ * ```ts
+ * const isRole = isLiteral("admin", "member"); // Guard<"admin" | "member">
+ * ```
+ */
+export const isLiteral =
+  <const T extends readonly (string | number | boolean | bigint | null | undefined)[]>(
+    ...values: T
+  ): Guard<T[number]> =>
+  (value): value is T[number] =>
+    values.includes(value as T[number]);
+
+/**
+ * Create a guard that passes when any of the given guards passes.
+ * @example
+ * ```ts
+ * const isId = isUnionOf(isString, isNumber); // Guard<string | number>
+ * ```
+ */
+export const isUnionOf =
+  <G extends Guard<unknown>[]>(...guards: G): Guard<GuardType<G[number]>> =>
+  (value): value is GuardType<G[number]> =>
+    guards.some((guard) => guard(value));
+
+/**
+ * Create a guard that also accepts undefined.
+ * Inside isObjectOf, the property becomes optional.
+ * @example
+ * ```ts
+ * const isNick = isOptional(isString); // OptionalGuard<string>
+ * ```
+ */
+export const isOptional = <T>(guard: Guard<T>): OptionalGuard<T> =>
+  Object.assign((value: unknown): value is T | undefined => value === undefined || guard(value), {
+    optional: true as const,
+  });
+
+/**
+ * Create a guard for objects whose properties pass the given guards.
+ * Extra properties are allowed; properties checked with isOptional may be missing.
+ * @example
+ * ```ts
+ * const isUser = isObjectOf({ id: isString, nick: isOptional(isString) });
+ * type User = GuardType<typeof isUser>; // { id: string; nick?: string | undefined }
+ * ```
+ */
+export const isObjectOf =
+  <S extends GuardShape>(shape: S): Guard<ObjectOf<S>> =>
+  (value): value is ObjectOf<S> =>
+    isRecord(value) && Object.entries(shape).every(([key, guard]) => guard(value[key]));
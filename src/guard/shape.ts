@@ -0,0 +1,62 @@
+import type { IsAny, IsEqual, IsFunction, IsNever } from "./basic";
+
+/**
+ * Check if a type is a plain object type (not an array, tuple or function).
+ * Returns false for any, unknown and never.
+ * @example
+ * ```ts
+ * type Check1 = IsPlainObject<{ a: string }>; // true
+ * type Check2 = IsPlainObject<string[]>; // false
+ * type Check3 = IsPlainObject<() => void>; // false
+ * ```
+ */
+export type IsPlainObject<T> =
+  IsAny<T> extends true
+    ? false
+    : IsNever<T> extends true
+      ? false
+      : [T] extends [object]
+        ? [T] extends [readonly unknown[]]
+          ? false
+          : IsFunction<T> extends true
+            ? false
+            : true
+        : false;
+
+/**
+ * Check if a type is an object type without any keys.
+ * @example
+ * ```ts
+ * type Check1 = IsEmptyObject<Record<never, never>>; // true
+ * type Check2 = IsEmptyObject<{ a?: string }>; // false
+ * type Check3 = IsEmptyObject<Record<string, never>>; // false
+ * ```
+ */
+export type IsEmptyObject<T> =
+  IsPlainObject<T> extends true ? ([keyof T] extends [never] ? true : false) : false;
+
+/**
+ * Check if a key of an object type is optional.
+ * @example
+ * ```ts
+ * type User = { id: string; nick?: string };
+ * type Check1 = IsOptionalKey<User, "nick">; // true
+ * type Check2 = IsOptionalKey<User, "id">; // false
+ * ```
+ */
+export type IsOptionalKey<T, K extends keyof T> =
+  Record<never, never> extends Pick<T, K> ? true : false;
+
+/**
+ * Check if a key of an object type is readonly.
+ * @example
+ * ```ts
+ * type User = { readonly id: string; name: string };
+ * type Check1 = IsReadonlyKey<User, "id">; // true
+ * type Check2 = IsReadonlyKey<User, "name">; // false
+ * ```
+ */
+export type IsReadonlyKey<T, K extends keyof T> =
+  IsEqual<Pick<T, K>, { -readonly [P in keyof Pick<T, K>]: Pick<T, K>[P] }> extends true
+    ? false
+    : true;
@@ -21,3 +21,6 @@ export * from "./brand";
 
 // Guard & Assertion types
 export * from "./guard";
+
+// Diagnostic types
+export * from "./diagnostics";
@@ -1,23 +1,51 @@
+import type { ShapeMismatch, TypeErrorMessage } from "../diagnostics";
+
+type MismatchedKeys<T, Shape> = {
+  [K in keyof T & keyof Shape]: [T[K]] extends [Shape[K]]
+    ? [Shape[K]] extends [T[K]]
+      ? never
+      : K
+    : K;
+}[keyof T & keyof Shape] &
+  (string | number);
+
+type ExactMismatch<T, Shape> = [MismatchedKeys<T, Shape>] extends [never]
+  ? TypeErrorMessage<"Type does not match Shape">
+  : TypeErrorMessage<`Key '${MismatchedKeys<T, Shape>}' does not match Shape`>;
+
 /**
  * Ensure an object type matches exactly the shape of another type (no extra properties).
+ * On mismatch, resolves to a TypeErrorMessage naming the offending key.
  * @example
  * ```ts
  * type Shape = { name: string; age: number };
  * type User = Exact<{ name: string; age: number }, Shape>; // OK
+ * type Extra = Exact<{ name: string; age: number; foo: boolean }, Shape>;
+ * // TypeErrorMessage<"Extra key 'foo' not allowed in Shape">
  * ```
  */
-export type Exact<T, Shape> = T extends Shape ? (Shape extends T ? T : never) : never;
+export type Exact<T, Shape> = [ShapeMismatch<T, Shape>] extends [never]
+  ? [T] extends [Shape]
+    ? [Shape] extends [T]
+      ? T
+      : ExactMismatch<T, Shape>
+    : ExactMismatch<T, Shape>
+  : ShapeMismatch<T, Shape>;
 
 /**
  * Ensure no extra properties beyond the specified shape (strict typing).
+ * Extra properties are typed as a TypeErrorMessage naming the key.
  * @example
  * ```ts
  * type User = NoExtra<{ name: string; age: number }, { name: string; age: number }>;
+ * type Extra = NoExtra<{ name: string; foo: number }, { name: string }>; // { name: string; foo: TypeErrorMessage<...> }
  * ```
  */
-export type NoExtra<T, Shape extends T = T> = T extends object
+export type NoExtra<T, Shape = T> = T extends object
   ? {
-      [K in keyof T]: K extends keyof Shape ? T[K] : never;
+      [K in keyof T]: K extends keyof Shape
+        ? T[K]
+        : TypeErrorMessage<`Extra key '${K & (string | number)}' not allowed in Shape`>;
     }
   : T;
 
@@ -1,16 +1,22 @@
+import type { TypeErrorMessage } from "../diagnostics";
+
 /**
  * Rename a key in an object type.
+ * Renaming onto another existing key resolves to a TypeErrorMessage instead of silently returning T.
  * @example
  * ```ts
  * type User = { firstName: string; age: number };
  * type Renamed = RenameKey<User, "firstName", "name">; // { name: string; age: number }
+ * type Clash = RenameKey<User, "firstName", "age">;
+ * // TypeErrorMessage<"Cannot rename 'firstName' to 'age': key 'age' already exists">
  * ```
  */
-export type RenameKey<T, From extends keyof T, To extends string> = To extends keyof T
-  ? T
-  : Omit<T, From> & {
-      [K in To]: T[From];
-    };
+export type RenameKey<T, From extends keyof T, To extends string> =
+  To extends Exclude<keyof T, From>
+    ? TypeErrorMessage<`Cannot rename '${From & (string | number)}' to '${To}': key '${To}' already exists`>
+    : Omit<T, From> & {
+        [K in To]: T[From];
+      };
 
 /**
  * Rename multiple keys in an object type.
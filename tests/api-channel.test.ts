@@ -0,0 +1,219 @@
+import { afterAll, describe, expect, it } from "bun:test";
+import type { Channel, ChannelEvents, ChannelMessage, SseMessage } from "../src/api";
+import { ChannelError, defineChannel } from "../src/api";
+import { expectTypeOf, isNumber, isObjectOf, isString } from "../src/guard";
+
+type ChatEvents = {
+  "user.joined": { id: string };
+  msg: { text: string; at: number };
+};
+
+const chat = defineChannel({
+  msg: isObjectOf({ at: isNumber, text: isString }),
+  "user.joined": isObjectOf({ id: isString }),
+});
+
+const streamOf = (...chunks: (string | Uint8Array)[]): ReadableStream<string | Uint8Array> =>
+  new ReadableStream({
+    start: (controller) => {
+      for (const chunk of chunks) {
+        controller.enqueue(chunk);
+      }
+      controller.close();
+    },
+  });
+
+const collect = async <T>(stream: ReadableStream<T>): Promise<T[]> => {
+  const items: T[] = [];
+  for await (const item of stream) {
+    items.push(item);
+  }
+  return items;
+};
+
+const server = Bun.serve({
+  fetch: (request, current) => {
+    if (current.upgrade(request)) {
+      return;
+    }
+    const frames = [
+      chat.sse.encode({ data: { id: "1" }, event: "user.joined", id: "1" }),
+      chat.sse.encode({ data: { at: 1, text: "hi" }, event: "msg", id: "2" }),
+    ];
+    return new Response(streamOf(...frames), { headers: { "content-type": "text/event-stream" } });
+  },
+  port: 0,
+  websocket: {
+    message: (socket, data) => {
+      const message = chat.ws.decode(data);
+      if (message.event === "msg") {
+        socket.send(
+          chat.ws.encode({
+            data: { ...message.data, text: message.data.text.toUpperCase() },
+            event: "msg",
+          }),
+        );
+      }
+    },
+  },
+});
+
+afterAll(() => server.stop(true));
+
+const exchange = (payload: string): Promise<string> => {
+  const socket = new WebSocket(server.url.href.replace("http", "ws"));
+  return new Promise<string>((resolve, reject) => {
+    socket.addEventListener("open", () => socket.send(payload));
+    socket.addEventListener("message", (event) => {
+      resolve(String(event.data));
+      socket.close();
+    });
+    socket.addEventListener("error", () => reject(new Error("WebSocket error")));
+  });
+};
+
+describe("Channels - Types", () => {
+  it("defineChannel - infers the event map from guards", () => {
+    expectTypeOf<ChannelEvents<typeof chat>>().toEqualTypeOf<ChatEvents>();
+    expectTypeOf(chat).toEqualTypeOf<Channel<ChatEvents>>();
+    expect(Object.keys(chat.events)).toEqual(["msg", "user.joined"]);
+  });
+
+  it("ChannelMessage - derives a discriminated message union", () => {
+    expectTypeOf<ChannelMessage<ChatEvents>>().toEqualTypeOf<
+      | { event: "user.joined"; data: { id: string } }
+      | { event: "msg"; data: { text: string; at: number } }
+    >();
+    expectTypeOf<SseMessage<ChatEvents>>().toMatchTypeOf<ChannelMessage<ChatEvents>>();
+    expect(true).toBe(true);
+  });
+
+  it("defineChannel - accepts an explicit event map", () => {
+    const typed = defineChannel<{ ping: number }>({ ping: isNumber });
+    // @ts-expect-error - payload does not match the event
+    const invalid = typed.ws.encode({ data: "1", event: "ping" });
+    expect(invalid).toBe('{"data":"1","event":"ping"}');
+  });
+
+  it("is - checks messages against the event guards", () => {
+    const value: unknown = { data: { id: "1" }, event: "user.joined" };
+    expect(chat.is(value)).toBe(true);
+    expect(chat.is({ data: { id: 1 }, event: "user.joined" })).toBe(false);
+    expect(chat.is({ data: null, event: "other" })).toBe(false);
+  });
+});
+
+describe("Channels - sse.encode", () => {
+  it("sse.encode - writes id, event, retry and data lines", () => {
+    expect(
+      chat.sse.encode({ data: { at: 1, text: "hi" }, event: "msg", id: "7", retry: 500 }),
+    ).toBe('id: 7\nevent: msg\nretry: 500\ndata: {"at":1,"text":"hi"}\n\n');
+    expect(chat.sse.encode({ data: { id: "1" }, event: "user.joined" })).toBe(
+      'event: user.joined\ndata: {"id":"1"}\n\n',
+    );
+  });
+
+  it("sse.encode - rejects line breaks in ids and event names", () => {
+    const data = { at: 1, text: "hi" };
+    expect(() =>
+      chat.sse.encode({ data, event: "msg", id: '1\ndata: {"at":2,"text":"x"}\n\nevent: msg' }),
+    ).toThrow(ChannelError);
+    expect(() => chat.sse.encode({ data, event: "msg", id: "1\r2" })).toThrow(
+      "line breaks are not allowed",
+    );
+    const loose = defineChannel<Record<string, unknown>>({ "a\nb": isNumber });
+    expect(() => loose.sse.encode({ data: 1, event: "a\nb" })).toThrow('Invalid SSE event "a\\nb"');
+  });
+});
+
+describe("Channels - sse.decode", () => {
+  it("sse.decode - decodes frames split across chunks", async () => {
+    const bytes = new TextEncoder().encode('data: {"at":2,"te');
+    const messages = await collect(
+      chat.sse.decode(
+        streamOf(
+          ": comment\r\nid: 1\r\nevent: msg\r",
+          "\n",
+          bytes,
+          'xt":"yo"}\r\n\r\nevent: user.joined\ndata: {"id":"9"}\n\n',
+        ),
+      ),
+    );
+    expect(messages).toEqual([
+      { data: { at: 2, text: "yo" }, event: "msg", id: "1" },
+      { data: { id: "9" }, event: "user.joined" },
+    ]);
+  });
+
+  it("sse.decode - joins multi-line data and skips frames without data", async () => {
+    const messages = await collect(
+      chat.sse.decode(
+        streamOf('event: msg\nretry: 10\n\nevent: msg\ndata: {"at":3,\ndata: "text":"a"}\n\n'),
+      ),
+    );
+    expect(messages).toEqual([{ data: { at: 3, text: "a" }, event: "msg" }]);
+  });
+
+  it("sse.decode - rejects unknown events and invalid payloads", async () => {
+    await expect(collect(chat.sse.decode(streamOf("data: {}\n\n")))).rejects.toThrow(
+      'Unknown event "message"',
+    );
+    await expect(
+      collect(chat.sse.decode(streamOf('event: msg\ndata: {"text":1}\n\n'))),
+    ).rejects.toThrow(ChannelError);
+    await expect(collect(chat.sse.decode(streamOf("event: msg\ndata: {\n\n")))).rejects.toThrow(
+      "is not valid JSON",
+    );
+  });
+});
+
+describe("Channels - SSE over HTTP", () => {
+  it("sse.decode - reads a server event stream", async () => {
+    const response = await fetch(server.url);
+    const messages = await collect(chat.sse.decode(response.body ?? streamOf()));
+    expect(messages.map(({ event }) => event)).toEqual(["user.joined", "msg"]);
+    const [, last] = messages;
+    if (last?.event === "msg") {
+      expectTypeOf(last.data).toEqualTypeOf<{ text: string; at: number }>();
+    }
+    expect(last).toEqual({ data: { at: 1, text: "hi" }, event: "msg", id: "2" });
+  });
+});
+
+describe("Channels - ws", () => {
+  it("ws.encode - encodes messages as JSON", () => {
+    expect(chat.ws.encode({ data: { id: "1" }, event: "user.joined" })).toBe(
+      '{"data":{"id":"1"},"event":"user.joined"}',
+    );
+  });
+
+  it("ws.decode - decodes and narrows messages", () => {
+    const message = chat.ws.decode(
+      new TextEncoder().encode('{"event":"msg","data":{"text":"hi","at":1}}'),
+    );
+    expectTypeOf(message).toEqualTypeOf<ChannelMessage<ChatEvents>>();
+    expect(message.event === "msg" && message.data.text).toBe("hi");
+  });
+
+  it("ws.decode - rejects invalid messages with a ChannelError", () => {
+    expect.assertions(5);
+    expect(() => chat.ws.decode("[1]")).toThrow("Invalid message: received [1]");
+    expect(() => chat.ws.decode("{")).toThrow(ChannelError);
+    expect(() => chat.ws.decode('{"event":"msg","data":{"text":"hi"}}')).toThrow(
+      'Invalid data for event "msg": received {"text":"hi"}',
+    );
+    try {
+      chat.ws.decode('{"event":"nope","data":null}');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ChannelError);
+      expect((error as ChannelError).event).toBe("nope");
+    }
+  });
+
+  it("ws - exchanges typed messages with a WebSocket server", async () => {
+    const reply = chat.ws.decode(
+      await exchange(chat.ws.encode({ data: { at: 5, text: "hey" }, event: "msg" })),
+    );
+    expect(reply).toEqual({ data: { at: 5, text: "HEY" }, event: "msg" });
+  });
+});
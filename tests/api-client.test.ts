@@ -0,0 +1,152 @@
+import { afterAll, describe, expect, it } from "bun:test";
+import type { FetchLike, RouteResponse } from "../src/api";
+import { ClientError, createClient, defineRoute } from "../src/api";
+import { expectTypeOf, isArrayOf, isObjectOf, isOptional, isString } from "../src/guard";
+
+const isUser = isObjectOf({ id: isString, name: isString });
+
+const routes = {
+  createUser: defineRoute({
+    method: "POST",
+    path: "/orgs/:orgId/users",
+    body: isObjectOf({ name: isString }),
+    responses: { 201: isUser },
+  }),
+  getUser: defineRoute({
+    method: "GET",
+    path: "/users/:id",
+    query: isObjectOf({ expand: isOptional(isString) }),
+    responses: { 200: isUser, 404: isObjectOf({ message: isString }) },
+  }),
+  listUsers: defineRoute({
+    method: "GET",
+    path: "/users",
+    responses: { 200: isArrayOf(isUser) },
+  }),
+};
+
+const server = Bun.serve({
+  fetch: async (request) => {
+    const url = new URL(request.url);
+    if (request.method === "POST" && url.pathname === "/orgs/acme/users") {
+      const { name } = (await request.json()) as { name: string };
+      return Response.json({ id: "2", name }, { status: 201 });
+    }
+    if (url.pathname === "/users") {
+      return Response.json([{ id: "1", name: "John" }]);
+    }
+    if (url.pathname === "/users/1") {
+      return Response.json({ id: "1", name: url.searchParams.get("expand") ?? "John" });
+    }
+    if (url.pathname === "/users/broken") {
+      return Response.json({ id: 1 });
+    }
+    if (url.pathname === "/users/gateway") {
+      return new Response("<html>Bad Gateway</html>", { status: 502 });
+    }
+    if (url.pathname === "/users/crash") {
+      return Response.json({ message: "Oops" }, { status: 500 });
+    }
+    return Response.json({ message: "Not found" }, { status: 404 });
+  },
+  port: 0,
+});
+
+afterAll(() => server.stop(true));
+
+const api = createClient(routes, { baseUrl: server.url.href });
+
+describe("Client - Types", () => {
+  it("createClient - infers arguments and responses per route", () => {
+    expectTypeOf(api.getUser).parameters.toEqualTypeOf<
+      [input: { query: { expand?: string | undefined } } & { params: { id: string } }]
+    >();
+    expectTypeOf(api.getUser).returns.toEqualTypeOf<
+      Promise<RouteResponse<typeof routes.getUser>>
+    >();
+    expect(typeof api.getUser).toBe("function");
+  });
+
+  it("createClient - rejects missing params and undeclared input", () => {
+    // @ts-expect-error - params are required for /users/:id
+    const _missing = () => api.getUser({ query: {} });
+    const _query = () =>
+      // @ts-expect-error - createUser declares no query
+      api.createUser({ body: { name: "Jane" }, params: { orgId: "acme" }, query: {} });
+    expect(_missing).toBeDefined();
+    expect(_query).toBeDefined();
+  });
+});
+
+describe("Client - Requests", () => {
+  it("createClient - fills path params and serializes the query", async () => {
+    const response = await api.getUser({ params: { id: "1" }, query: { expand: "Johnny" } });
+    expect(response).toEqual({ body: { id: "1", name: "Johnny" }, status: 200 });
+  });
+
+  it("createClient - narrows the response by status", async () => {
+    const response = await api.getUser({ params: { id: "9" }, query: {} });
+    if (response.status === 404) {
+      expectTypeOf(response.body).toEqualTypeOf<{ message: string }>();
+    }
+    expect(response).toEqual({ body: { message: "Not found" }, status: 404 });
+  });
+
+  it("createClient - sends the body as JSON", async () => {
+    const response = await api.createUser({ body: { name: "Jane" }, params: { orgId: "acme" } });
+    expect(response).toEqual({ body: { id: "2", name: "Jane" }, status: 201 });
+  });
+
+  it("createClient - allows omitting input for routes without any", async () => {
+    expect(await api.listUsers()).toEqual({ body: [{ id: "1", name: "John" }], status: 200 });
+  });
+});
+
+describe("Client - Errors", () => {
+  it("createClient - throws ClientError for undeclared status codes", async () => {
+    const error = await api
+      .getUser({ params: { id: "crash" }, query: {} })
+      .catch((error: unknown) => error);
+    expect(error).toBeInstanceOf(ClientError);
+    expect(error).toMatchObject({ body: { message: "Oops" }, status: 500 });
+  });
+
+  it("createClient - throws ClientError when the body does not match the contract", async () => {
+    const error = await api
+      .getUser({ params: { id: "broken" }, query: {} })
+      .catch((error: unknown) => error);
+    expect(error).toBeInstanceOf(ClientError);
+    expect(error).toMatchObject({ body: { id: 1 }, status: 200 });
+  });
+
+  it("createClient - throws ClientError for bodies that are not JSON", async () => {
+    const error = await api
+      .getUser({ params: { id: "gateway" }, query: {} })
+      .catch((error: unknown) => error);
+    expect(error).toBeInstanceOf(ClientError);
+    expect(error).toMatchObject({ body: "<html>Bad Gateway</html>", status: 502 });
+    expect((error as ClientError).message).toContain("is not valid JSON");
+  });
+});
+
+const calls: { url: string; init: RequestInit }[] = [];
+const recordingFetch: FetchLike = (url, init) => {
+  calls.push({ init, url });
+  return Promise.resolve(Response.json({ id: "a b", name: "John" }));
+};
+
+describe("Client - Injected fetch", () => {
+  it("createClient - uses the injected fetch, base URL and headers", async () => {
+    const client = createClient(routes, {
+      baseUrl: "https://api.example.com/",
+      fetch: recordingFetch,
+      headers: { authorization: "Bearer token" },
+    });
+    await client.getUser({ params: { id: "a b" }, query: {} });
+    expect(calls[0]?.url).toBe("https://api.example.com/users/a%20b");
+    expect(calls[0]?.init).toMatchObject({
+      headers: { accept: "application/json", authorization: "Bearer token" },
+      method: "GET",
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, expect, it } from "bun:test";
+import type {
+  CacheControl,
+  ContentType,
+  HeaderName,
+  HeaderValue,
+  HttpHeaders,
+  MediaRange,
+} from "../src/api";
+import { formatHeaders, getHeader, parseHeaders } from "../src/api";
+import { expectTypeOf } from "../src/guard";
+
+describe("HTTP Headers - Types", () => {
+  it("HttpHeaders - types standard headers by lowercase name", () => {
+    expectTypeOf<HttpHeaders["content-type"]>().toEqualTypeOf<
+      ContentType | (string & Record<never, never>) | undefined
+    >();
+    expectTypeOf<HttpHeaders["content-length"]>().toEqualTypeOf<number | undefined>();
+    expectTypeOf<HttpHeaders["cache-control"]>().toEqualTypeOf<CacheControl | undefined>();
+    expectTypeOf<HttpHeaders["accept"]>().toEqualTypeOf<MediaRange[] | undefined>();
+    expect(true).toBe(true);
+  });
+
+  it("HeaderValue - looks up header values case-insensitively", () => {
+    expectTypeOf<HeaderValue<"Content-Length">>().toEqualTypeOf<number | undefined>();
+    expectTypeOf<HeaderValue<"CACHE-CONTROL">>().toEqualTypeOf<CacheControl | undefined>();
+    expectTypeOf<HeaderValue<"X-Request-Id">>().toEqualTypeOf<HttpHeaders[string]>();
+    expect(true).toBe(true);
+  });
+
+  it("HeaderName - lists canonical header names", () => {
+    const name: HeaderName = "Content-Type";
+    expectTypeOf<"If-None-Match">().toMatchTypeOf<HeaderName>();
+    // @ts-expect-error - header names are canonically cased
+    const lower: HeaderName = "content-type";
+    expect([name, lower]).toHaveLength(2);
+  });
+
+  it("HttpHeaders - rejects values of the wrong type", () => {
+    const valid: HttpHeaders = {
+      "content-type": "application/json; charset=utf-8",
+      "x-trace": "1",
+    };
+    // @ts-expect-error - content-length is a number
+    const invalid: HttpHeaders = { "content-length": "42" };
+    expect([valid, invalid]).toHaveLength(2);
+  });
+});
+
+describe("HTTP Headers - parseHeaders", () => {
+  it("parseHeaders - parses raw header lines into typed values", () => {
+    const headers = parseHeaders(
+      "Content-Type: application/json\r\nContent-Length: 42\r\nCache-Control: public, max-age=60, no-transform\r\nAccept: text/html, application/*;q=0.5",
+    );
+    expect(headers).toEqual({
+      accept: [
+        { params: {}, q: 1, type: "text/html" },
+        { params: {}, q: 0.5, type: "application/*" },
+      ],
+      "cache-control": { "max-age": 60, "no-transform": true, public: true },
+      "content-length": 42,
+      "content-type": "application/json",
+    });
+  });
+
+  it("parseHeaders - lowercases names and joins repeated headers", () => {
+    expect(parseHeaders({ "X-Tag": ["a", "b"], "user-AGENT": "bun" })).toEqual({
+      "user-agent": "bun",
+      "x-tag": "a, b",
+    });
+  });
+
+  it("parseHeaders - keeps each Set-Cookie value from a Headers object", () => {
+    const input = new Headers([
+      ["Set-Cookie", "a=1"],
+      ["Set-Cookie", "b=2"],
+      ["ETag", '"v1"'],
+    ]);
+    expect(parseHeaders(input)).toEqual({ etag: '"v1"', "set-cookie": ["a=1", "b=2"] });
+  });
+
+  it("parseHeaders - keeps repeated Set-Cookie values", () => {
+    const input = new Headers([
+      ["Set-Cookie", "a=1"],
+      ["Set-Cookie", "a=1"],
+      ["Set-Cookie", "b=2"],
+    ]);
+    expect(parseHeaders(input)["set-cookie"]).toEqual(["a=1", "a=1", "b=2"]);
+  });
+
+  it("parseHeaders - keeps content types outside the known media types", () => {
+    const type = parseHeaders({ "Content-Type": "application/vnd.api+json" })["content-type"];
+    expectTypeOf<"application/vnd.api+json">().toMatchTypeOf<NonNullable<typeof type>>();
+    expect(type).toBe("application/vnd.api+json");
+  });
+});
+
+describe("HTTP Headers - parseHeaders validation", () => {
+  it("parseHeaders - keeps quoted Cache-Control arguments and drops invalid lengths", () => {
+    const headers = parseHeaders({
+      "Cache-Control": 'private="Set-Cookie, Authorization", no-cache="X-Trace", max-age=5',
+      "Content-Length": "abc",
+    });
+    expect(headers).toEqual({
+      "cache-control": {
+        "max-age": 5,
+        "no-cache": "X-Trace",
+        private: "Set-Cookie, Authorization",
+      },
+    });
+    expect(formatHeaders(headers)).toEqual([
+      ["Cache-Control", 'private="Set-Cookie, Authorization", no-cache="X-Trace", max-age=5'],
+    ]);
+  });
+});
+
+describe("HTTP Headers - formatHeaders", () => {
+  it("formatHeaders - formats typed values with canonical names", () => {
+    expect(
+      formatHeaders({
+        accept: [
+          { params: { level: "1" }, q: 1, type: "text/html" },
+          { params: {}, q: 0.1, type: "*/*" },
+        ],
+        "cache-control": { "max-age": 0, "must-revalidate": true, private: false },
+        "content-length": 2,
+        "set-cookie": ["a=1", "b=2"],
+        "x-request-id": "abc",
+      }),
+    ).toEqual([
+      ["Accept", "text/html;level=1, */*;q=0.1"],
+      ["Cache-Control", "max-age=0, must-revalidate"],
+      ["Content-Length", "2"],
+      ["Set-Cookie", "a=1"],
+      ["Set-Cookie", "b=2"],
+      ["X-Request-Id", "abc"],
+    ]);
+  });
+
+  it("formatHeaders - round-trips through parseHeaders", () => {
+    const headers: HttpHeaders = {
+      "cache-control": { "no-store": true },
+      "content-type": "text/plain; charset=utf-8",
+      vary: "Accept",
+    };
+    expect(parseHeaders(new Headers(formatHeaders(headers)))).toEqual(headers);
+  });
+});
+
+describe("HTTP Headers - getHeader", () => {
+  it("getHeader - reads a header regardless of the case of its name", () => {
+    const headers = parseHeaders({ "Content-Length": "10" });
+    const length = getHeader(headers, "CONTENT-LENGTH");
+    expectTypeOf<typeof length>().toEqualTypeOf<number | undefined>();
+    expect(length).toBe(10);
+    expect(getHeader(headers, "Location")).toBeUndefined();
+  });
+});
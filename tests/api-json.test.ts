@@ -0,0 +1,137 @@
+import { describe, expect, it } from "bun:test";
+import type { JsonObject, Jsonify, JsonValue } from "../src/api";
+import { toJson } from "../src/api";
+import type { TypeErrorMessage } from "../src/diagnostics";
+import { expectTypeOf } from "../src/guard";
+
+type Money = { amount: number; currency: string; toJSON: () => string };
+
+const money = (amount: number, currency: string): Money => ({
+  amount,
+  currency,
+  toJSON: () => `${amount} ${currency}`,
+});
+
+class Point {
+  constructor(
+    readonly x: number,
+    readonly y: number,
+  ) {}
+
+  length(): number {
+    return Math.hypot(this.x, this.y);
+  }
+}
+
+type Tree = { name: string; children: Tree[] };
+
+type Timeline = { at: Date; next?: Timeline };
+
+type Order = {
+  id: string;
+  createdAt: Date;
+  note?: string;
+  total: Money;
+  origin: Point;
+  tags: Set<string>;
+  save: () => void;
+  removed: undefined;
+  items: (number | undefined)[];
+};
+
+describe("Jsonify - Types", () => {
+  it("Jsonify - keeps JSON primitives and honors toJSON", () => {
+    expectTypeOf<Jsonify<"a" | 1 | true | null>>().toEqualTypeOf<"a" | 1 | true | null>();
+    expectTypeOf<Jsonify<Date>>().toEqualTypeOf<string>();
+    expectTypeOf<Jsonify<Money>>().toEqualTypeOf<string>();
+    expect(true).toBe(true);
+  });
+
+  it("Jsonify - drops undefined and function properties", () => {
+    expectTypeOf<Jsonify<Order>>().toEqualTypeOf<{
+      id: string;
+      createdAt: string;
+      note?: string;
+      total: string;
+      origin: { readonly x: number; readonly y: number };
+      tags: Record<never, never>;
+      items: (number | null)[];
+    }>();
+    expect(true).toBe(true);
+  });
+
+  it("Jsonify - maps arrays, tuples, Map and Set", () => {
+    expectTypeOf<Jsonify<[string, undefined, () => void]>>().toEqualTypeOf<[string, null, null]>();
+    expectTypeOf<Jsonify<readonly Date[]>>().toEqualTypeOf<string[]>();
+    expectTypeOf<Jsonify<Map<string, number>>>().toEqualTypeOf<Record<never, never>>();
+    expect(true).toBe(true);
+  });
+
+  it("Jsonify - reports bigint as a type error", () => {
+    expectTypeOf<Jsonify<{ id: bigint }>>().toEqualTypeOf<{
+      id: TypeErrorMessage<"bigint is not JSON serializable">;
+    }>();
+    expect(true).toBe(true);
+  });
+
+  it("Jsonify - results are JsonValue", () => {
+    expectTypeOf<Jsonify<Order>>().toMatchTypeOf<JsonValue>();
+    expectTypeOf<Jsonify<unknown>>().toEqualTypeOf<JsonValue>();
+    expect(true).toBe(true);
+  });
+
+  it("Jsonify - keeps JSON and recursive types", () => {
+    expectTypeOf<Jsonify<JsonObject>>().toEqualTypeOf<JsonObject>();
+    expectTypeOf<Jsonify<JsonValue[]>>().toEqualTypeOf<JsonValue[]>();
+    expectTypeOf<Jsonify<Tree>>().toEqualTypeOf<Tree>();
+    expectTypeOf<Jsonify<Timeline>["at"]>().toEqualTypeOf<string>();
+    expect(true).toBe(true);
+  });
+});
+
+const order: Order = {
+  createdAt: new Date(0),
+  id: "o_1",
+  items: [1, undefined],
+  origin: new Point(3, 4),
+  removed: undefined,
+  save: () => {},
+  tags: new Set(["a"]),
+  total: money(10, "EUR"),
+};
+
+describe("Jsonify - toJson", () => {
+  it("toJson - matches JSON.stringify semantics", () => {
+    const json = toJson(order);
+    expectTypeOf(json).toEqualTypeOf<Jsonify<Order>>();
+    expect(json).toEqual({
+      createdAt: "1970-01-01T00:00:00.000Z",
+      id: "o_1",
+      items: [1, null],
+      origin: { x: 3, y: 4 },
+      tags: {},
+      total: "10 EUR",
+    });
+  });
+
+  it("toJson - returns a JsonValue", () => {
+    const value: JsonValue = toJson({ count: 1, when: new Date(0) });
+    expect(value).toEqual({ count: 1, when: "1970-01-01T00:00:00.000Z" });
+  });
+
+  it("toJson - accepts JSON values and recursive types", () => {
+    const value = JSON.parse('{"a":[1,"b"]}') as JsonValue;
+    const tree: Tree = { children: [{ children: [], name: "leaf" }], name: "root" };
+    const timeline: Timeline = { at: new Date(0), next: { at: new Date(1) } };
+    expectTypeOf(toJson(value)).toEqualTypeOf<JsonValue>();
+    expectTypeOf(toJson(tree)).toEqualTypeOf<Tree>();
+    expectTypeOf(toJson(timeline).next?.at).toMatchTypeOf<string | undefined>();
+    expect([toJson(value), toJson(tree)]).toEqual([value, tree]);
+    expect(toJson(timeline).next?.at).toBe("1970-01-01T00:00:00.001Z");
+  });
+
+  it("toJson - rejects bigint at compile time", () => {
+    // @ts-expect-error - bigint is not JSON serializable
+    expect(() => toJson({ id: 1n })).toThrow(TypeError);
+  });
+});
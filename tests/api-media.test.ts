@@ -0,0 +1,76 @@
+import { describe, expect, it } from "bun:test";
+import type { ContentType, MimeType } from "../src/api";
+import { formatAccept, negotiate, parseAccept } from "../src/api";
+import { expectTypeOf } from "../src/guard";
+
+describe("Media Types - Types", () => {
+  it("ContentType - accepts known media types and parameters", () => {
+    const type: MimeType = "application/problem+json";
+    const contentType: ContentType = "text/html; charset=utf-8";
+    // @ts-expect-error - parameters are not part of a MimeType
+    const invalid: MimeType = "text/html; charset=utf-8";
+    expectTypeOf<MimeType>().toMatchTypeOf<ContentType>();
+    expect([type, contentType, invalid]).toHaveLength(3);
+  });
+});
+
+describe("Media Types - parseAccept", () => {
+  it("parseAccept - parses q-values and parameters", () => {
+    expect(parseAccept('text/html;level="1", text/*;q=0.3, */*;Q=0.1')).toEqual([
+      { params: { level: "1" }, q: 1, type: "text/html" },
+      { params: {}, q: 0.3, type: "text/*" },
+      { params: {}, q: 0.1, type: "*/*" },
+    ]);
+  });
+
+  it("parseAccept - clamps out-of-range and invalid q-values", () => {
+    expect(parseAccept("a/b;q=2, c/d;q=oops").map(({ q }) => q)).toEqual([1, 0]);
+    expect(parseAccept(" , ")).toEqual([]);
+  });
+
+  it("formatAccept - formats ranges back into a header", () => {
+    expect(formatAccept(parseAccept("application/json, text/*;q=0.5"))).toBe(
+      "application/json, text/*;q=0.5",
+    );
+  });
+});
+
+describe("Media Types - negotiate", () => {
+  const offers = ["application/json", "text/html", "text/plain"] as const;
+
+  it("negotiate - picks the offer with the highest q-value", () => {
+    const picked = negotiate("text/html;q=0.8, application/json;q=0.9", offers);
+    expectTypeOf<typeof picked>().toEqualTypeOf<(typeof offers)[number] | null>();
+    expect(picked).toBe("application/json");
+  });
+
+  it("negotiate - prefers the most specific range for each offer", () => {
+    expect(negotiate("text/*;q=0.9, text/html;q=0.1", offers)).toBe("text/plain");
+    expect(negotiate("*/*;q=0.1, text/plain", offers)).toBe("text/plain");
+  });
+
+  it("negotiate - keeps the order of offers on ties", () => {
+    expect(negotiate("*/*", offers)).toBe("application/json");
+    expect(negotiate("text/*", offers)).toBe("text/html");
+  });
+
+  it("negotiate - excludes offers with q=0", () => {
+    expect(negotiate("*/*, application/json;q=0", offers)).toBe("text/html");
+  });
+
+  it("negotiate - returns the first offer without an Accept header", () => {
+    expect(negotiate(undefined, offers)).toBe("application/json");
+    expect(negotiate("", offers)).toBe("application/json");
+  });
+
+  it("negotiate - returns null when nothing is acceptable", () => {
+    expect(negotiate("image/png", offers)).toBeNull();
+    expect(negotiate("*/*", [])).toBeNull();
+  });
+
+  it("negotiate - accepts parsed ranges and offers with parameters", () => {
+    expect(negotiate(parseAccept("text/plain"), ["text/plain; charset=utf-8"])).toBe(
+      "text/plain; charset=utf-8",
+    );
+  });
+});
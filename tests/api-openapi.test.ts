@@ -0,0 +1,232 @@
+import { describe, expect, it } from "bun:test";
+import type { OpenApiDocument, OpenApiOperation } from "../src/api";
+import {
+  arraySchema,
+  createOpenApi,
+  defineRoute,
+  integerSchema,
+  literalSchema,
+  objectSchema,
+  optionalSchema,
+  stringSchema,
+} from "../src/api";
+import { isObjectOf, isString } from "../src/guard";
+
+const isUser = objectSchema({ id: stringSchema(), name: stringSchema() });
+
+const isProblem = objectSchema({ status: integerSchema(), title: stringSchema() });
+
+const routes = {
+  createUser: defineRoute({
+    body: objectSchema({ name: stringSchema({ minLength: 1 }) }),
+    method: "POST",
+    path: "/orgs/:org/users",
+    responses: { 201: isUser, 422: isProblem },
+    tags: ["users"],
+  }),
+  deleteUser: defineRoute({
+    method: "DELETE",
+    path: "/users/:id<number>",
+    responses: { 204: isObjectOf({}) },
+  }),
+  getFile: defineRoute({
+    method: "GET",
+    path: "/files/:bucket([a-z]+)/*",
+    responses: { 200: isString },
+  }),
+  listPosts: defineRoute({
+    method: "GET",
+    path: "/users/:id<number>/posts/:tag?",
+    responses: { 200: arraySchema(objectSchema({ title: stringSchema() })) },
+  }),
+  listUsers: defineRoute({
+    description: "Lists users, newest first.",
+    method: "GET",
+    path: "/users",
+    query: objectSchema({
+      filter: optionalSchema(objectSchema({ role: literalSchema("admin", "member") })),
+      limit: integerSchema({ maximum: 100, minimum: 1 }),
+      tags: optionalSchema(arraySchema(stringSchema())),
+    }),
+    responses: { 200: arraySchema(isUser) },
+    summary: "List users",
+  }),
+};
+
+const document = createOpenApi(routes, {
+  info: { title: "Users API", version: "1.0.0" },
+  servers: [{ url: "https://api.example.com" }],
+});
+
+const METHODS = new Set(["get", "put", "post", "delete", "options", "head", "patch", "trace"]);
+
+// Structural rules of OpenAPI 3.1 that the generator must respect.
+const specViolations = (spec: OpenApiDocument): string[] => {
+  const violations: string[] = [];
+  const operationIds = new Set<string>();
+  if (!/^3\.1\.\d+$/.test(spec.openapi)) {
+    violations.push("openapi must be a 3.1.x version");
+  }
+  for (const [path, item] of Object.entries(spec.paths)) {
+    if (!path.startsWith("/")) {
+      violations.push(`${path}: paths must start with "/"`);
+    }
+    const templated = [...path.matchAll(/\{([^}]+)\}/g)].map(([, name]) => name);
+    for (const [method, operation] of Object.entries(item) as [string, OpenApiOperation][]) {
+      const where = `${method} ${path}`;
+      if (!METHODS.has(method)) {
+        violations.push(`${where}: unknown method`);
+      }
+      if (operationIds.has(operation.operationId)) {
+        violations.push(`${where}: duplicate operationId ${operation.operationId}`);
+      }
+      operationIds.add(operation.operationId);
+      const pathParams = (operation.parameters ?? []).filter((param) => param.in === "path");
+      if (pathParams.some((param) => !param.required)) {
+        violations.push(`${where}: path parameters must be required`);
+      }
+      if (JSON.stringify(pathParams.map(({ name }) => name)) !== JSON.stringify(templated)) {
+        violations.push(`${where}: path parameters must match the template`);
+      }
+      if (Object.keys(operation.responses).length === 0) {
+        violations.push(`${where}: at least one response is required`);
+      }
+      for (const [status, response] of Object.entries(operation.responses)) {
+        if (
+          !/^[1-5](?:\d\d|XX)$|^default$/.test(status) ||
+          typeof response.description !== "string"
+        ) {
+          violations.push(`${where}: invalid response ${status}`);
+        }
+      }
+    }
+  }
+  return violations;
+};
+
+describe("OpenAPI - Document", () => {
+  it("createOpenApi - produces a structurally valid OpenAPI 3.1 document", () => {
+    expect(document.openapi).toBe("3.1.0");
+    expect(document.info).toEqual({ title: "Users API", version: "1.0.0" });
+    expect(document.servers).toEqual([{ url: "https://api.example.com" }]);
+    expect(specViolations(document)).toEqual([]);
+  });
+
+  it("createOpenApi - produces plain JSON", () => {
+    expect(JSON.parse(JSON.stringify(document))).toEqual(document);
+  });
+
+  it("createOpenApi - converts path templates and expands optional segments and wildcards", () => {
+    expect(Object.keys(document.paths).toSorted()).toEqual([
+      "/files/{bucket}",
+      "/files/{bucket}/{wildcard}",
+      "/orgs/{org}/users",
+      "/users",
+      "/users/{id}",
+      "/users/{id}/posts",
+      "/users/{id}/posts/{tag}",
+    ]);
+    expect(document.paths["/users/{id}/posts/{tag}"]?.get?.operationId).toBe("listPosts");
+    expect(document.paths["/users/{id}/posts"]?.get?.operationId).toBe("listPosts_1");
+    expect(document.paths["/files/{bucket}"]?.get?.operationId).toBe("getFile_1");
+  });
+
+  it("createOpenApi - rejects two routes for the same operation", () => {
+    const route = defineRoute({ method: "GET", path: "/a", responses: { 200: isString } });
+    expect(() => createOpenApi({ first: route, second: route }, document)).toThrow(
+      'Duplicate OpenAPI operation GET /a in "second"',
+    );
+  });
+});
+
+describe("OpenAPI - Path Parameters", () => {
+  it("createOpenApi - documents typed and constrained path parameters", () => {
+    expect(document.paths["/users/{id}"]?.delete?.parameters).toEqual([
+      { in: "path", name: "id", required: true, schema: { type: "number" } },
+    ]);
+    expect(document.paths["/files/{bucket}/{wildcard}"]?.get?.parameters).toEqual([
+      {
+        in: "path",
+        name: "bucket",
+        required: true,
+        schema: { pattern: "^(?:[a-z]+)$", type: "string" },
+      },
+      {
+        description: 'Rest of the path, which may contain "/"',
+        in: "path",
+        name: "wildcard",
+        required: true,
+        schema: { type: "string" },
+      },
+    ]);
+  });
+});
+
+describe("OpenAPI - Query Parameters", () => {
+  it("createOpenApi - documents query parameters from the query schema", () => {
+    const operation = document.paths["/users"]?.get;
+    expect(operation).toMatchObject({
+      description: "Lists users, newest first.",
+      summary: "List users",
+    });
+    expect(operation?.parameters).toEqual([
+      {
+        explode: true,
+        in: "query",
+        name: "filter",
+        required: false,
+        schema: {
+          properties: { role: { enum: ["admin", "member"] } },
+          required: ["role"],
+          type: "object",
+        },
+        style: "deepObject",
+      },
+      {
+        in: "query",
+        name: "limit",
+        required: true,
+        schema: { maximum: 100, minimum: 1, type: "integer" },
+      },
+      {
+        in: "query",
+        name: "tags",
+        required: false,
+        schema: { items: { type: "string" }, type: "array" },
+      },
+    ]);
+  });
+});
+
+describe("OpenAPI - Bodies and Responses", () => {
+  it("createOpenApi - documents request bodies and responses", () => {
+    expect(document.paths["/orgs/{org}/users"]?.post).toEqual({
+      operationId: "createUser",
+      parameters: [{ in: "path", name: "org", required: true, schema: { type: "string" } }],
+      requestBody: {
+        content: { "application/json": { schema: routes.createUser.body.schema } },
+        required: true,
+      },
+      responses: {
+        "201": {
+          content: { "application/json": { schema: isUser.schema } },
+          description: "Created",
+        },
+        "422": {
+          content: { "application/json": { schema: isProblem.schema } },
+          description: "Unprocessable Content",
+        },
+      },
+      tags: ["users"],
+    });
+  });
+
+  it("createOpenApi - omits content for bodiless statuses and uses {} for plain guards", () => {
+    expect(document.paths["/users/{id}"]?.delete?.responses).toEqual({
+      "204": { description: "No Content" },
+    });
+    expect(document.paths["/files/{bucket}"]?.get?.responses["200"]?.content).toEqual({
+      "application/json": { schema: {} },
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "bun:test";
+import type { Cursor, CursorPage, OffsetPage, Paginated } from "../src/api";
+import { decodeCursor, encodeCursor, paginate, parseCursor } from "../src/api";
+import { expectTypeOf, isObjectOf, isString } from "../src/guard";
+
+type User = { id: string; name: string };
+
+const users: User[] = ["Ann", "Bob", "Cid", "Dee", "Eve"].map((name, index) => ({
+  id: String(index + 1),
+  name,
+}));
+
+const byId = (user: User) => ({ id: user.id });
+
+const describePage = (page: Paginated<User>): string =>
+  page.mode === "offset" ? `offset ${page.offset}` : `cursor ${page.pageInfo.endCursor}`;
+
+describe("Pagination - Types", () => {
+  it("Cursor - is opaque and keyed by its sort key", () => {
+    // @ts-expect-error - plain strings are not cursors
+    const _forged: Cursor = "eyJpZCI6IjEifQ";
+    // @ts-expect-error - cursors for different sort keys are incompatible
+    const _other: Cursor<{ id: string }> = encodeCursor({ createdAt: 1 });
+    expectTypeOf(encodeCursor({ id: "1" })).toEqualTypeOf<Cursor<{ readonly id: "1" }>>();
+    expect(_forged).toBeDefined();
+  });
+
+  it("Paginated - is discriminated by mode", () => {
+    expect(describePage(paginate(users, { limit: 2 }))).toBe("offset 0");
+  });
+});
+
+describe("Pagination - Cursor encoding", () => {
+  it("encodeCursor - produces base64url and round-trips", () => {
+    const cursor = encodeCursor({ id: "é/?+", rank: 1 });
+    expect(cursor).toMatch(/^[\w-]+$/);
+    expect(decodeCursor(cursor)).toEqual({ id: "é/?+", rank: 1 });
+  });
+
+  it("parseCursor - validates untrusted cursors", () => {
+    const isKey = isObjectOf({ id: isString });
+    const cursor = parseCursor(String(encodeCursor({ id: "3" })), isKey);
+    expectTypeOf(cursor).toEqualTypeOf<Cursor<{ id: string }>>();
+    expect(decodeCursor(cursor)).toEqual({ id: "3" });
+    expect(() => parseCursor("not a cursor", isKey)).toThrow(TypeError);
+    expect(() => parseCursor(encodeCursor({ id: 3 }), isKey)).toThrow("Invalid cursor");
+  });
+});
+
+describe("Pagination - paginate", () => {
+  it("paginate - slices by offset and limit", () => {
+    const page = paginate(users, { limit: 2, offset: 2 });
+    expectTypeOf(page).toEqualTypeOf<OffsetPage<User>>();
+    expect(page).toEqual({
+      items: users.slice(2, 4),
+      limit: 2,
+      mode: "offset",
+      offset: 2,
+      pageInfo: { hasNextPage: true, totalCount: 5 },
+    });
+    expect(paginate(users, { limit: 2, offset: 4 }).pageInfo.hasNextPage).toBe(false);
+  });
+
+  it("paginate - walks pages with cursors", () => {
+    const first = paginate(users, { cursorKey: byId, first: 2 });
+    expectTypeOf(first).toEqualTypeOf<CursorPage<User, { id: string }>>();
+    expect(first.items.map((user) => user.name)).toEqual(["Ann", "Bob"]);
+    expect(first.pageInfo).toEqual({
+      endCursor: encodeCursor({ id: "2" }),
+      hasNextPage: true,
+      totalCount: 5,
+    });
+
+    const last = paginate(users, { after: first.pageInfo.endCursor, cursorKey: byId, first: 3 });
+    expect(last.items.map((user) => user.name)).toEqual(["Cid", "Dee", "Eve"]);
+    expect(last.pageInfo.hasNextPage).toBe(false);
+
+    const empty = paginate(users, { after: last.pageInfo.endCursor, cursorKey: byId, first: 3 });
+    expect(empty.pageInfo).toEqual({ endCursor: null, hasNextPage: false, totalCount: 5 });
+  });
+
+  it("paginate - rejects unknown cursors and invalid counts", () => {
+    expect(() =>
+      paginate(users, { after: encodeCursor({ id: "9" }), cursorKey: byId, first: 1 }),
+    ).toThrow("does not match any item");
+    expect(() => paginate(users, { limit: -1 })).toThrow(RangeError);
+    expect(() => paginate(users, { cursorKey: byId, first: 1.5 })).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, expect, it } from "bun:test";
+import type { JsonPatch, JsonPatchOperation } from "../src/api";
+import { applyPatch, createPatch, JsonPatchError } from "../src/api";
+import { expectTypeOf } from "../src/guard";
+
+type Doc = {
+  name: string;
+  age?: number;
+  tags: string[];
+  meta: { "a/b": boolean };
+};
+
+const doc: Doc = { meta: { "a/b": true }, name: "John", tags: ["a", "b"] };
+
+describe("JSON Patch - Types", () => {
+  it("JsonPatchOperation - checks paths and values against the document", () => {
+    expectTypeOf<{ op: "replace"; path: "/name"; value: string }>().toMatchTypeOf<
+      JsonPatchOperation<Doc>
+    >();
+    expectTypeOf<{ op: "add"; path: "/tags/-"; value: string }>().toMatchTypeOf<
+      JsonPatchOperation<Doc>
+    >();
+    expectTypeOf<{ op: "move"; from: "/age"; path: "/meta" }>().toMatchTypeOf<
+      JsonPatchOperation<Doc>
+    >();
+    expect(true).toBe(true);
+  });
+
+  it("JsonPatch - rejects invalid paths and values", () => {
+    const patch: JsonPatch<Doc> = [
+      { op: "test", path: "/meta/a~1b", value: true },
+      // @ts-expect-error - name is a string
+      { op: "replace", path: "/name", value: 1 },
+      // @ts-expect-error - "/email" is not a path into Doc
+      { op: "remove", path: "/email" },
+    ];
+    expect(patch).toHaveLength(3);
+  });
+
+  it("JsonPatch - types paths below index signatures", () => {
+    const patch: JsonPatch<{ users: Record<string, { name: string }> }> = [
+      { op: "replace", path: "/users/u1/name", value: "Jane" },
+      { op: "add", path: "/users/u2", value: { name: "John" } },
+      // @ts-expect-error - name is a string
+      { op: "replace", path: "/users/u1/name", value: 1 },
+    ];
+    expect(patch).toHaveLength(3);
+  });
+
+  it("JsonPatch - defaults to untyped JsonValue documents", () => {
+    const patch: JsonPatch = [
+      { op: "add", path: "/a/0/b", value: { c: [1, null] } },
+      { op: "copy", from: "/a", path: "/b" },
+    ];
+    expect(patch).toHaveLength(2);
+  });
+});
+
+describe("JSON Patch - applyPatch", () => {
+  it("applyPatch - applies add, remove and replace immutably", () => {
+    const result = applyPatch(doc, [
+      { op: "replace", path: "/name", value: "Jane" },
+      { op: "add", path: "/age", value: 30 },
+      { op: "add", path: "/tags/0", value: "first" },
+      { op: "add", path: "/tags/-", value: "last" },
+      { op: "remove", path: "/tags/1" },
+    ]);
+    expect(result).toEqual({
+      age: 30,
+      meta: { "a/b": true },
+      name: "Jane",
+      tags: ["first", "b", "last"],
+    });
+    expect(doc).toEqual({ meta: { "a/b": true }, name: "John", tags: ["a", "b"] });
+  });
+
+  it("applyPatch - applies move, copy and test", () => {
+    const result = applyPatch({ a: { b: 1 }, c: [] as number[] }, [
+      { op: "test", path: "/a", value: { b: 1 } },
+      { op: "copy", from: "/a/b", path: "/c/-" },
+      { op: "move", from: "/a/b", path: "/c/0" },
+    ]);
+    expect<unknown>(result).toEqual({ a: {}, c: [1, 1] });
+  });
+
+  it("applyPatch - adds __proto__ as an own key", () => {
+    const result = applyPatch<Record<string, unknown>>({ a: 1 }, [
+      { op: "add", path: "/__proto__", value: { polluted: true } },
+    ]);
+    expect(Object.keys(result)).toEqual(["a", "__proto__"]);
+    expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+    expect(result).not.toHaveProperty("polluted");
+  });
+
+  it("applyPatch - replaces the whole document at the root", () => {
+    expect(applyPatch<unknown>(1, [{ op: "replace", path: "", value: 2 }])).toBe(2);
+  });
+});
+
+describe("JSON Patch - Errors", () => {
+  it("applyPatch - is atomic and reports the failing operation", () => {
+    const patch: JsonPatch<Doc> = [
+      { op: "replace", path: "/name", value: "Jane" },
+      { op: "test", path: "/name", value: "John" },
+    ];
+    const error = (() => {
+      try {
+        return applyPatch(doc, patch);
+      } catch (caught) {
+        return caught;
+      }
+    })();
+    expect(error).toBeInstanceOf(JsonPatchError);
+    expect(error).toMatchObject({ index: 1, operation: { op: "test", path: "/name" } });
+    expect(doc.name).toBe("John");
+  });
+
+  it("applyPatch - rejects missing targets and invalid moves", () => {
+    expect(() => applyPatch(doc, [{ op: "remove", path: "/age" }])).toThrow(JsonPatchError);
+    expect(() => applyPatch(doc, [{ op: "replace", path: "/age", value: 1 }])).toThrow("no value");
+    expect(() => applyPatch(doc, [{ op: "add", path: "/tags/5", value: "x" }])).toThrow(
+      "out of bounds",
+    );
+    expect(() => applyPatch(doc, [{ op: "move", from: "/meta", path: "/meta/a~1b" }])).toThrow(
+      "into its own child",
+    );
+  });
+});
+
+describe("JSON Patch - createPatch", () => {
+  it("createPatch - diffs objects and arrays", () => {
+    const next: Doc = { meta: { "a/b": false }, name: "Jane", tags: ["a"], age: 3 };
+    expect(createPatch(doc, next)).toEqual([
+      { op: "replace", path: "/meta/a~1b", value: false },
+      { op: "replace", path: "/name", value: "Jane" },
+      { op: "remove", path: "/tags/1" },
+      { op: "add", path: "/age", value: 3 },
+    ]);
+    expect(createPatch(doc, doc)).toEqual([]);
+  });
+
+  it("createPatch - round-trips through applyPatch", () => {
+    const a = { list: [1, 2, 3], nested: { keep: true, drop: "x" }, "~key": 1 };
+    const b = { list: [1, 4], nested: { keep: true, added: [null] }, "~key": 2 };
+    expect(applyPatch<unknown>(a, createPatch<unknown>(a, b))).toEqual(b);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "bun:test";
+import type { RouteParams } from "../src/api";
+import { buildPath, matchRoute, parsePath } from "../src/api";
+import { expectTypeOf } from "../src/guard";
+
+describe("Route Params - Types", () => {
+  it("RouteParams - extracts named params", () => {
+    expectTypeOf<RouteParams<"/users/:id/posts/:postId">>().toEqualTypeOf<{
+      id: string;
+      postId: string;
+    }>();
+    expectTypeOf<RouteParams<"/users">>().toEqualTypeOf<Record<never, never>>();
+    expect(true).toBe(true);
+  });
+
+  it("RouteParams - supports optional, typed and constrained params", () => {
+    expectTypeOf<RouteParams<"/users/:id<number>/posts/:slug?">>().toEqualTypeOf<{
+      id: number;
+      slug?: string;
+    }>();
+    expectTypeOf<RouteParams<"/flags/:enabled<boolean>">>().toEqualTypeOf<{ enabled: boolean }>();
+    expectTypeOf<RouteParams<"/orders/:code([A-Z]{3})">>().toEqualTypeOf<{ code: string }>();
+    expectTypeOf<RouteParams<"/v:version<number>/users">>().toEqualTypeOf<{ version: number }>();
+    expect(true).toBe(true);
+  });
+
+  it("RouteParams - exposes wildcards as '*'", () => {
+    expectTypeOf<RouteParams<"/files/*">>().toEqualTypeOf<{ "*": string }>();
+    expect(true).toBe(true);
+  });
+});
+
+describe("Route Params - matchRoute", () => {
+  it("matchRoute - returns params for matching paths and null otherwise", () => {
+    expect(matchRoute("/users/:id", "/users/42")).toEqual({ id: "42" });
+    expect(matchRoute("/users/:id", "/users/42/")).toEqual({ id: "42" });
+    expect(matchRoute("/users/:id", "/users")).toBeNull();
+    expect(matchRoute("/users/:id", "/posts/42")).toBeNull();
+    expect(matchRoute("/users", "/users")).toEqual({});
+    expect(matchRoute("/v:version<number>/users", "/v2/users")).toEqual({ version: 2 });
+  });
+
+  it("matchRoute - accepts full URLs and ignores the query", () => {
+    expect(matchRoute("/users/:id", "https://example.com/users/7?tab=posts")).toEqual({ id: "7" });
+  });
+
+  it("matchRoute - coerces typed params", () => {
+    const params = matchRoute("/users/:id<number>/active/:on<boolean>", "/users/42/active/true");
+    expectTypeOf(params).toEqualTypeOf<{ id: number; on: boolean } | null>();
+    expect(params).toEqual({ id: 42, on: true });
+    expect(matchRoute("/users/:id<number>", "/users/john")).toBeNull();
+  });
+
+  it("matchRoute - applies constraint patterns", () => {
+    expect(matchRoute("/orders/:code([A-Z]{3})", "/orders/ABC")).toEqual({ code: "ABC" });
+    expect(matchRoute("/orders/:code([A-Z]{3})", "/orders/abcd")).toBeNull();
+  });
+
+  it("matchRoute - handles optional segments and wildcards", () => {
+    expect(matchRoute("/posts/:slug?", "/posts")).toEqual({});
+    expect(matchRoute("/posts/:slug?", "/posts/hello")).toEqual({ slug: "hello" });
+    expect(matchRoute("/files/*", "/files/a/b%20c.txt")).toEqual({ "*": "a/b c.txt" });
+    expect(matchRoute("/files/*", "/files")).toEqual({ "*": "" });
+  });
+
+  it("matchRoute - decodes params", () => {
+    expect(matchRoute("/users/:name", "/users/John%20Doe")).toEqual({ name: "John Doe" });
+  });
+
+  it("matchRoute - returns null for malformed percent-encoding", () => {
+    expect(matchRoute("/users/:id", "/users/%E0%A4%A")).toBeNull();
+    expect(matchRoute("/files/*", "/files/%zz")).toBeNull();
+  });
+});
+
+describe("Route Params - buildPath", () => {
+  it("buildPath - fills and encodes params", () => {
+    expect(buildPath("/users/:id/posts/:postId", { id: "a b", postId: "7" })).toBe(
+      "/users/a%20b/posts/7",
+    );
+    expect(buildPath("/users/:id<number>", { id: 42 })).toBe("/users/42");
+    expect(buildPath("/v:version<number>/users", { version: 2 })).toBe("/v2/users");
+    expect(buildPath("/users")).toBe("/users");
+  });
+
+  it("buildPath - drops omitted optional segments", () => {
+    expect(buildPath("/posts/:slug?", {})).toBe("/posts");
+    expect(buildPath("/posts/:slug?/comments", { slug: "hi" })).toBe("/posts/hi/comments");
+  });
+
+  it("buildPath - keeps slashes in wildcards", () => {
+    expect(buildPath("/files/*", { "*": "a/b c.txt" })).toBe("/files/a/b%20c.txt");
+  });
+
+  it("buildPath - rejects missing params at compile time", () => {
+    // @ts-expect-error - id is required
+    expect(() => buildPath("/users/:id", {})).toThrow(TypeError);
+    // @ts-expect-error - id must be a number
+    expect(() => buildPath("/users/:id<number>", { id: "john" })).toThrow(TypeError);
+  });
+
+  it("buildPath - checks constraint patterns at runtime", () => {
+    expect(() => buildPath("/orders/:code([A-Z]{3})", { code: "abc" })).toThrow(TypeError);
+  });
+});
+
+describe("Route Params - parsePath", () => {
+  it("parsePath - splits a template into prefixes and params", () => {
+    const [users, id, posts, slug] = parsePath("/users/:id<number>/posts/v:slug?");
+    expect(users).toEqual({ prefix: "users" });
+    expect(id?.param).toMatchObject({ name: "id", optional: false, type: "number" });
+    expect(posts).toEqual({ prefix: "posts" });
+    expect(slug).toMatchObject({ param: { name: "slug", optional: true }, prefix: "v" });
+    expect(slug?.param?.pattern.test("hello")).toBe(true);
+  });
+
+  it("parsePath - parses constraints and wildcards", () => {
+    const [, code, rest] = parsePath("/items/:code([A-Z]{3})/*");
+    expect(code?.param?.pattern.source).toBe("^(?:[A-Z]{3})$");
+    expect(rest?.param?.name).toBe("*");
+  });
+});
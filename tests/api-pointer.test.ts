@@ -0,0 +1,120 @@
+import { describe, expect, it } from "bun:test";
+import type { JsonPointer, JsonValue, PointerValue } from "../src/api";
+import { getByPointer, JsonPointerError, removeByPointer, setByPointer } from "../src/api";
+import { expectTypeOf } from "../src/guard";
+
+type Config = {
+  server: { host: string; port: number };
+  tags: string[];
+  pair: [string, number];
+  "a/b": { "c~d": boolean };
+  note?: string;
+};
+
+const config: Config = {
+  "a/b": { "c~d": true },
+  pair: ["x", 1],
+  server: { host: "localhost", port: 8080 },
+  tags: ["api", "web"],
+};
+
+describe("JSON Pointer - Types", () => {
+  it("JsonPointer - lists every pointer into a document", () => {
+    expectTypeOf<JsonPointer<Config>>().toEqualTypeOf<
+      | ""
+      | "/server"
+      | "/server/host"
+      | "/server/port"
+      | "/tags"
+      | `/tags/${number}`
+      | "/pair"
+      | "/pair/0"
+      | "/pair/1"
+      | "/a~1b"
+      | "/a~1b/c~0d"
+      | "/note"
+    >();
+    expect(true).toBe(true);
+  });
+
+  it("JsonPointer - accepts any deep path into recursive types", () => {
+    expectTypeOf<"/a/0/b">().toMatchTypeOf<JsonPointer<JsonValue>>();
+    expect(true).toBe(true);
+  });
+
+  it("PointerValue - resolves the value type of a pointer", () => {
+    expectTypeOf<PointerValue<Config, "/server/port">>().toEqualTypeOf<number>();
+    expectTypeOf<PointerValue<Config, "/tags/0">>().toEqualTypeOf<string | undefined>();
+    expectTypeOf<PointerValue<Config, "/pair/1">>().toEqualTypeOf<number>();
+    expectTypeOf<PointerValue<Config, "/a~1b/c~0d">>().toEqualTypeOf<boolean>();
+    expectTypeOf<PointerValue<Config, "">>().toEqualTypeOf<Config>();
+    expect(true).toBe(true);
+  });
+});
+
+describe("JSON Pointer - getByPointer", () => {
+  it("getByPointer - reads values with escaped tokens", () => {
+    const port = getByPointer(config, "/server/port");
+    expectTypeOf(port).toEqualTypeOf<number>();
+    expect(port).toBe(8080);
+    expect(getByPointer(config, "/a~1b/c~0d")).toBe(true);
+    expect(getByPointer(config, "/tags/1")).toBe("web");
+    expect(getByPointer(config, "")).toBe(config);
+  });
+
+  it("getByPointer - returns undefined for missing values", () => {
+    expect(getByPointer(config, "/tags/5")).toBeUndefined();
+    expect(getByPointer(config, "/note")).toBeUndefined();
+  });
+
+  it("getByPointer - rejects unknown pointers at compile time", () => {
+    // @ts-expect-error - "/server/name" is not a pointer into Config
+    expect(getByPointer(config, "/server/name")).toBeUndefined();
+    // @ts-expect-error - pointers must start with "/"
+    expect(() => getByPointer(config, "server")).toThrow(JsonPointerError);
+  });
+});
+
+describe("JSON Pointer - setByPointer", () => {
+  it("setByPointer - returns an updated copy", () => {
+    const updated = setByPointer(config, "/server/port", 9090);
+    expect(updated.server).toEqual({ host: "localhost", port: 9090 });
+    expect(config.server.port).toBe(8080);
+    expect(updated.tags).toBe(config.tags);
+  });
+
+  it("setByPointer - replaces and appends array items", () => {
+    expect(setByPointer(config, "/tags/0", "rest").tags).toEqual(["rest", "web"]);
+    expect(setByPointer(config, "/tags/2", "cli").tags).toEqual(["api", "web", "cli"]);
+    expect(() => setByPointer(config, "/tags/4", "cli")).toThrow("index 4 is out of bounds");
+  });
+
+  it("setByPointer - writes __proto__ as an own key", () => {
+    const updated = setByPointer<Record<string, unknown>, "/__proto__">({ a: 1 }, "/__proto__", {
+      polluted: true,
+    });
+    expect(Object.keys(updated)).toEqual(["a", "__proto__"]);
+    expect(Object.getPrototypeOf(updated)).toBe(Object.prototype);
+    expect(updated).not.toHaveProperty("polluted");
+  });
+
+  it("setByPointer - checks the value type", () => {
+    // @ts-expect-error - port is a number
+    expect(setByPointer(config, "/server/port", "80").server.port).toBe("80");
+  });
+});
+
+describe("JSON Pointer - removeByPointer", () => {
+  it("removeByPointer - removes object keys and array items", () => {
+    expect(removeByPointer(config, "/tags/0").tags).toEqual(["web"]);
+    const withNote: Config = { ...config, note: "hi" };
+    expect(removeByPointer(withNote, "/note")).toEqual(config);
+    expect(config.tags).toEqual(["api", "web"]);
+  });
+
+  it("removeByPointer - throws for missing values and the root", () => {
+    expect(() => removeByPointer(config, "/note")).toThrow(JsonPointerError);
+    expect(() => removeByPointer(config, "/tags/2")).toThrow("index 2 is out of bounds");
+    expect(() => removeByPointer(config, "")).toThrow("cannot remove the document root");
+  });
+});
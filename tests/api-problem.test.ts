@@ -0,0 +1,165 @@
+import { describe, expect, it } from "bun:test";
+import type { ProblemDetails, ProblemOf } from "../src/api";
+import { defineProblem, defineProblems, isProblemDetails, parseProblem, problem } from "../src/api";
+import { expectTypeOf, isNumber, isObjectOf, isString } from "../src/guard";
+
+const NotFound = defineProblem({
+  extension: isObjectOf({ resource: isString }),
+  status: 404,
+  type: "https://example.com/probs/not-found",
+});
+
+const OutOfCredit = defineProblem({
+  extension: isObjectOf({ balance: isNumber }),
+  status: 403,
+  title: "You do not have enough credit",
+  type: "https://example.com/probs/out-of-credit",
+});
+
+const Maintenance = defineProblem({ status: 503, type: "https://example.com/probs/maintenance" });
+
+const problems = defineProblems(NotFound, OutOfCredit, Maintenance);
+
+const describeProblem = (body: unknown): string => {
+  if (!problems.is(body)) {
+    return "unknown";
+  }
+  switch (body.type) {
+    case NotFound.type: {
+      return `missing ${body.resource}`;
+    }
+    case OutOfCredit.type: {
+      return `balance ${body.balance}`;
+    }
+    default: {
+      return body.title;
+    }
+  }
+};
+
+describe("Problem Details - Types", () => {
+  it("ProblemDetails - merges extension members", () => {
+    expectTypeOf<ProblemDetails<{ balance: number }, 403, "urn:credit">>().toEqualTypeOf<{
+      type: "urn:credit";
+      title: string;
+      status: 403;
+      detail?: string;
+      instance?: string;
+      balance: number;
+    }>();
+    expect(true).toBe(true);
+  });
+
+  it("ProblemOf - derives the body of registered kinds", () => {
+    expectTypeOf<ProblemOf<typeof NotFound>>().toEqualTypeOf<
+      ProblemDetails<{ resource: string }, 404, "https://example.com/probs/not-found">
+    >();
+    expect(true).toBe(true);
+  });
+});
+
+describe("Problem Details - problem", () => {
+  it("problem - fills the default title and type", () => {
+    const body = problem(404, { detail: "User 42 does not exist" });
+    expectTypeOf(body.status).toEqualTypeOf<404>();
+    expect(body).toEqual({
+      detail: "User 42 does not exist",
+      status: 404,
+      title: "Not Found",
+      type: "about:blank",
+    });
+  });
+
+  it("problem - keeps custom titles and extension members", () => {
+    const body = problem(403, { balance: 30, title: "Out of credit", type: "urn:credit" });
+    expectTypeOf(body.balance).toEqualTypeOf<number>();
+    expect(body).toEqual({ balance: 30, status: 403, title: "Out of credit", type: "urn:credit" });
+    // @ts-expect-error - 499 is not a registered status code
+    expect(problem(499).status).toBe(499);
+  });
+
+  it("problem - takes the status only from the first argument", () => {
+    // @ts-expect-error - init cannot override the status
+    const body = problem(404, { status: 500 });
+    expectTypeOf(body.status).toEqualTypeOf<404>();
+    expect(body.status).toBe(404);
+  });
+});
+
+describe("Problem Details - Parsing", () => {
+  it("isProblemDetails - checks the standard members", () => {
+    expect(isProblemDetails(problem(500))).toBe(true);
+    expect(isProblemDetails({ status: 500, title: "Oops" })).toBe(false);
+    expect(isProblemDetails({ status: 999, title: "Oops", type: "about:blank" })).toBe(false);
+    expect(isProblemDetails({ detail: 1, status: 500, title: "Oops", type: "about:blank" })).toBe(
+      false,
+    );
+  });
+
+  it("parseProblem - applies RFC defaults", () => {
+    expect(parseProblem({ status: 429 })).toEqual({
+      status: 429,
+      title: "Too Many Requests",
+      type: "about:blank",
+    });
+    expect(parseProblem({ code: 7, status: 400, title: "Bad input", type: "urn:x" })).toEqual({
+      code: 7,
+      status: 400,
+      title: "Bad input",
+      type: "urn:x",
+    });
+    expect(() => parseProblem({ error: "Oops" })).toThrow(TypeError);
+  });
+
+  it("parseProblem - ignores mistyped members and accepts unregistered statuses", () => {
+    expect(parseProblem({ detail: 5, status: 404, title: null, type: 1 })).toEqual({
+      status: 404,
+      title: "Not Found",
+      type: "about:blank",
+    });
+    expect(parseProblem({ status: 499, title: "Client Closed Request" })).toEqual({
+      status: 499,
+      title: "Client Closed Request",
+      type: "about:blank",
+    });
+    expect(parseProblem({ status: 599 }).title).toBe("Status 599");
+    expect(() => parseProblem({ status: 600 })).toThrow(TypeError);
+    expect(() => parseProblem({ status: 404.5 })).toThrow(TypeError);
+  });
+});
+
+describe("Problem Details - Registered kinds", () => {
+  it("defineProblem - creates typed problems", () => {
+    expect(NotFound.create({ resource: "user" })).toEqual({
+      resource: "user",
+      status: 404,
+      title: "Not Found",
+      type: "https://example.com/probs/not-found",
+    });
+    expect(Maintenance.create().title).toBe("Service Unavailable");
+    // @ts-expect-error - resource is required
+    expect(NotFound.create({}).status).toBe(404);
+  });
+
+  it("defineProblem - keeps the kind's type, status and title in created problems", () => {
+    const init = { resource: "user", status: 500, title: "Oops", type: "urn:other" };
+    expect(NotFound.create(init as { resource: string })).toEqual({
+      resource: "user",
+      status: 404,
+      title: "Not Found",
+      type: "https://example.com/probs/not-found",
+    });
+  });
+
+  it("defineProblems - narrows registered kinds by type", () => {
+    expect(describeProblem(NotFound.create({ resource: "user" }))).toBe("missing user");
+    expect(describeProblem(OutOfCredit.create({ balance: 30 }))).toBe("balance 30");
+    expect(describeProblem(Maintenance.create({ detail: "Back soon" }))).toBe(
+      "Service Unavailable",
+    );
+    expect(describeProblem({ ...NotFound.create({ resource: "user" }), resource: 1 })).toBe(
+      "unknown",
+    );
+    expect(describeProblem(problem(404))).toBe("unknown");
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, expect, it } from "bun:test";
+import type { QueryOf, QueryParams } from "../src/api";
+import { parseQuery, stringifyQuery } from "../src/api";
+import { expectTypeOf } from "../src/guard";
+
+const spec = {
+  active: "boolean",
+  filter: { status: ["open", "closed"] },
+  ids: "number[]",
+  page: "number",
+  q: "string",
+  sort: ["asc", "desc"],
+} as const;
+
+describe("Query Params - Types", () => {
+  it("QueryParams - keeps primitive, literal, array and nested types", () => {
+    expectTypeOf<
+      QueryParams<{
+        page: number;
+        active: boolean;
+        sort: "asc" | "desc";
+        tags: string[];
+        filter: { status: string };
+      }>
+    >().toEqualTypeOf<{
+      page?: number;
+      active?: boolean;
+      sort?: "asc" | "desc";
+      tags?: string[];
+      filter?: { status?: string };
+    }>();
+    expect(true).toBe(true);
+  });
+
+  it("QueryOf - derives the shape described by a spec", () => {
+    expectTypeOf<QueryOf<typeof spec>>().toEqualTypeOf<{
+      readonly active: boolean;
+      readonly filter: { readonly status: "open" | "closed" };
+      readonly ids: number[];
+      readonly page: number;
+      readonly q: string;
+      readonly sort: "asc" | "desc";
+    }>();
+    expect(true).toBe(true);
+  });
+});
+
+describe("Query Params - parseQuery", () => {
+  it("parseQuery - coerces values to the spec", () => {
+    const query = parseQuery("?page=2&active=true&sort=desc&q=hello%20world", spec);
+    expectTypeOf<typeof query.page>().toEqualTypeOf<number | undefined>();
+    expectTypeOf<typeof query.sort>().toEqualTypeOf<"asc" | "desc" | undefined>();
+    expect(query).toEqual({ active: true, page: 2, q: "hello world", sort: "desc" });
+  });
+
+  it("parseQuery - reads repeated keys and [] suffixes as arrays", () => {
+    expect(parseQuery("ids=1&ids=2", spec)).toEqual({ ids: [1, 2] });
+    expect(parseQuery("ids[]=1&ids[]=2", spec)).toEqual({ ids: [1, 2] });
+  });
+
+  it("parseQuery - reads bracket notation as nested objects", () => {
+    expect(parseQuery("filter[status]=open", spec)).toEqual({ filter: { status: "open" } });
+    expect(parseQuery("filter%5Bstatus%5D=closed", spec)).toEqual({ filter: { status: "closed" } });
+  });
+
+  it("parseQuery - omits missing and unknown keys", () => {
+    expect(parseQuery("other=1", spec)).toEqual({});
+    expect(parseQuery(new URLSearchParams({ page: "3" }), spec)).toEqual({ page: 3 });
+  });
+
+  it("parseQuery - throws a TypeError for values that cannot be coerced", () => {
+    expect(() => parseQuery("page=abc", spec)).toThrow(
+      'Invalid query param "page": expected a number',
+    );
+    expect(() => parseQuery("active=yes", spec)).toThrow("expected a boolean");
+    expect(() => parseQuery("sort=up", spec)).toThrow('expected one of "asc", "desc"');
+    expect(() => parseQuery("filter[status]=gone", spec)).toThrow('"filter[status]"');
+    expect(() => parseQuery("filter=open", spec)).toThrow("expected nested keys");
+  });
+});
+
+describe("Query Params - parseQuery safety", () => {
+  it("parseQuery - rejects keys given both as a value and with nested keys", () => {
+    const message = 'Invalid query param "filter": cannot be both a value and nested keys';
+    expect(() => parseQuery("filter[status]=open&filter=open", spec)).toThrow(message);
+    expect(() => parseQuery("filter=open&filter[status]=open", spec)).toThrow(message);
+  });
+
+  it("parseQuery - ignores prototype keys instead of writing to Object.prototype", () => {
+    expect(
+      parseQuery("__proto__[polluted]=yes&constructor[prototype][x]=1&a[__proto__]=2", spec),
+    ).toEqual({});
+    expect(Object.prototype).not.toHaveProperty("polluted");
+    expect(Object.prototype).not.toHaveProperty("x");
+  });
+
+  it("parseQuery - reads spec keys that shadow inherited properties", () => {
+    expect(parseQuery("", { toString: "string" })).toEqual({});
+    expect(
+      parseQuery("toString=x&hasOwnProperty=1", { hasOwnProperty: "number", toString: "string" }),
+    ).toEqual({
+      hasOwnProperty: 1,
+      toString: "x",
+    });
+  });
+});
+
+describe("Query Params - stringifyQuery", () => {
+  it("stringifyQuery - serializes primitives and skips empty values", () => {
+    expect(stringifyQuery({ active: false, page: 2, q: "a b", skip: undefined, none: null })).toBe(
+      "active=false&page=2&q=a%20b",
+    );
+    expect(stringifyQuery({})).toBe("");
+  });
+
+  it("stringifyQuery - repeats keys for arrays and brackets nested objects", () => {
+    expect(stringifyQuery({ filter: { status: "open" }, tags: ["a", "b"] })).toBe(
+      "filter[status]=open&tags=a&tags=b",
+    );
+  });
+
+  it("stringifyQuery - serializes toJSON values and rejects other class instances", () => {
+    expect(stringifyQuery({ range: { since: new Date(0) } })).toBe(
+      "range[since]=1970-01-01T00%3A00%3A00.000Z",
+    );
+    expect(() => stringifyQuery({ tags: new Set(["a"]) })).toThrow(
+      'Invalid query param "tags": cannot serialize Set',
+    );
+  });
+
+  it("stringifyQuery - round-trips through parseQuery", () => {
+    const query = {
+      filter: { status: "closed" as const },
+      ids: [1, 2],
+      page: 4,
+      sort: "asc" as const,
+    };
+    expect(parseQuery(stringifyQuery(query), spec)).toEqual(query);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "bun:test";
+import type { ApiResult } from "../src/api";
+import { ok, err, isOk, isErr, map, mapErr, unwrapOr, fromPromise } from "../src/api";
+import { expectTypeOf } from "../src/guard";
+
+type User = { id: string; name: string };
+
+const findUser = (id: string): ApiResult<User, "NOT_FOUND"> =>
+  id === "1" ? ok({ id, name: "John" }) : err("NOT_FOUND");
+
+describe("API Result - Narrowing", () => {
+  it("ApiResult - narrows on success", () => {
+    const result = findUser("1");
+    if (result.success) {
+      expectTypeOf(result.data).toEqualTypeOf<User>();
+      expect(result.data.name).toBe("John");
+    } else {
+      expectTypeOf(result.error).toEqualTypeOf<"NOT_FOUND">();
+      // @ts-expect-error - the error branch has no data
+      expect(result.data).toBeUndefined();
+    }
+  });
+
+  it("isOk / isErr - narrow results", () => {
+    const found = findUser("1");
+    const missing = findUser("2");
+    expect(isOk(found) && found.data.id).toBe("1");
+    expect(isErr(missing) && missing.error).toBe("NOT_FOUND");
+    expect(isErr(found)).toBe(false);
+  });
+});
+
+describe("API Result - Helpers", () => {
+  it("map / mapErr - transform one branch", () => {
+    const name = map(findUser("1"), (user) => user.name);
+    const code = mapErr(findUser("2"), (error) => ({ code: error, status: 404 }));
+    expectTypeOf(name).toEqualTypeOf<ApiResult<string, "NOT_FOUND">>();
+    expectTypeOf(code).toEqualTypeOf<ApiResult<User, { code: "NOT_FOUND"; status: number }>>();
+    expect(name).toEqual({ success: true, data: "John" });
+    expect(code).toEqual({ success: false, error: { code: "NOT_FOUND", status: 404 } });
+    expect(map(findUser("2"), (user) => user.name)).toEqual({ success: false, error: "NOT_FOUND" });
+  });
+
+  it("unwrapOr - falls back on failure", () => {
+    expect(unwrapOr(map(findUser("1"), (user) => user.name), "anonymous")).toBe("John");
+    expect(unwrapOr(map(findUser("2"), (user) => user.name), "anonymous")).toBe("anonymous");
+  });
+
+  it("fromPromise - settles promises into results", async () => {
+    const resolved = await fromPromise(Promise.resolve(42));
+    const rejected = await fromPromise(Promise.reject(new Error("boom")), (error) => (error as Error).message);
+    expectTypeOf(resolved).toEqualTypeOf<ApiResult<number, unknown>>();
+    expectTypeOf(rejected).toEqualTypeOf<ApiResult<never, string>>();
+    expect(resolved).toEqual({ success: true, data: 42 });
+    expect(rejected).toEqual({ success: false, error: "boom" });
+  });
+});
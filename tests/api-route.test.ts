@@ -0,0 +1,65 @@
+import { describe, it, expect } from "bun:test";
+import type { RouteInput, RouteResponse, RouteHandler } from "../src/api";
+import { defineRoute } from "../src/api";
+import { expectTypeOf, isObjectOf, isOptional, isString } from "../src/guard";
+
+const isUser = isObjectOf({ id: isString, name: isString });
+
+const getUser = defineRoute({
+  method: "GET",
+  path: "/users/:id",
+  query: isObjectOf({ expand: isOptional(isString) }),
+  responses: { 200: isUser, 404: isObjectOf({ message: isString }) },
+});
+
+const createUser = defineRoute({
+  method: "POST",
+  path: "/orgs/:orgId/users",
+  body: isObjectOf({ name: isString }),
+  responses: { 201: isUser },
+});
+
+describe("Route Contracts - Types", () => {
+  it("defineRoute - keeps method, path and status codes literal", () => {
+    expectTypeOf(getUser.method).toEqualTypeOf<"GET">();
+    expectTypeOf(getUser.path).toEqualTypeOf<"/users/:id">();
+    expect(getUser.path).toBe("/users/:id");
+  });
+
+  it("RouteInput - derives params from the path plus declared query and body", () => {
+    expectTypeOf<RouteInput<typeof getUser>>().toEqualTypeOf<{
+      params: { id: string };
+      query: { expand?: string | undefined };
+    }>();
+    expectTypeOf<RouteInput<typeof createUser>>().toEqualTypeOf<{
+      params: { orgId: string };
+      body: { name: string };
+    }>();
+    expect(true).toBe(true);
+  });
+
+  it("RouteResponse - is a union keyed by status code", () => {
+    expectTypeOf<RouteResponse<typeof getUser>>().toEqualTypeOf<
+      { status: 200; body: { id: string; name: string } } | { status: 404; body: { message: string } }
+    >();
+    expect(true).toBe(true);
+  });
+});
+
+const handler: RouteHandler<typeof getUser> = ({ params }) =>
+  params.id === "1" ? { status: 200, body: { id: "1", name: "John" } } : { status: 404, body: { message: "Not found" } };
+
+// @ts-expect-error - 500 is not a declared response
+const _invalid: RouteHandler<typeof getUser> = () => ({ status: 500, body: { message: "Oops" } });
+
+describe("Route Contracts - Handlers", () => {
+  it("RouteHandler - is checked against the contract", async () => {
+    expect(await handler({ params: { id: "1" }, query: {} })).toEqual({ status: 200, body: { id: "1", name: "John" } });
+    expect(await handler({ params: { id: "2" }, query: {} })).toEqual({ status: 404, body: { message: "Not found" } });
+  });
+
+  it("responses - validate payloads at runtime", () => {
+    expect(getUser.responses[200]({ id: "1", name: "John" })).toBe(true);
+    expect(getUser.responses[404]({ id: "1" })).toBe(false);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "bun:test";
+import type { Schema } from "../src/api";
+import {
+  arraySchema,
+  booleanSchema,
+  integerSchema,
+  literalSchema,
+  nullSchema,
+  numberSchema,
+  objectSchema,
+  optionalSchema,
+  stringSchema,
+  toJsonSchema,
+  unionSchema,
+  withSchema,
+} from "../src/api";
+import { isEmail } from "../src/brand";
+import type { Email } from "../src/brand";
+import { expectTypeOf, isString, type GuardType } from "../src/guard";
+
+const isUser = objectSchema(
+  {
+    id: stringSchema({ format: "uuid" }),
+    nick: optionalSchema(stringSchema({ maxLength: 3 })),
+    role: literalSchema("admin", "member"),
+    tags: arraySchema(stringSchema()),
+  },
+  { description: "A user" },
+);
+
+describe("Schema - Primitives", () => {
+  it("stringSchema - describes and checks strings", () => {
+    const isSlug = stringSchema({ minLength: 2, pattern: "^[a-z-]+$" });
+    expect(isSlug.schema).toEqual({ minLength: 2, pattern: "^[a-z-]+$", type: "string" });
+    expect(isSlug("ab-c")).toBe(true);
+    expect(isSlug("a")).toBe(false);
+    expect(isSlug("AB")).toBe(false);
+    expect(isSlug(1)).toBe(false);
+  });
+
+  it("numberSchema / integerSchema - describe and check numbers and integers", () => {
+    const isPrice = numberSchema({ minimum: 0 });
+    const isAge = integerSchema({ maximum: 150 });
+    expect(isPrice.schema).toEqual({ minimum: 0, type: "number" });
+    expect(isAge.schema).toEqual({ maximum: 150, type: "integer" });
+    expect([isPrice(1.5), isPrice(-1), isAge(30), isAge(30.5), isAge(151)]).toEqual([
+      true,
+      false,
+      true,
+      false,
+      false,
+    ]);
+  });
+
+  it("booleanSchema / nullSchema / literalSchema - describe their values", () => {
+    expect(booleanSchema().schema).toEqual({ type: "boolean" });
+    expect(nullSchema({ description: "Nothing" }).schema).toEqual({
+      description: "Nothing",
+      type: "null",
+    });
+    const isRole = literalSchema("admin", "member");
+    expectTypeOf(isRole).toEqualTypeOf<Schema<"admin" | "member">>();
+    expect(isRole.schema).toEqual({ enum: ["admin", "member"] });
+    expect(isRole("owner")).toBe(false);
+  });
+
+  it("withSchema - does not change the guard it wraps", () => {
+    const isUserEmail = withSchema(isEmail, { format: "email", type: "string" });
+    expectTypeOf(isUserEmail).toEqualTypeOf<Schema<Email>>();
+    expect(isUserEmail("a@b.co")).toBe(true);
+    expect("schema" in isEmail).toBe(false);
+  });
+
+  it("toJsonSchema - reads schemas from guards", () => {
+    expect(toJsonSchema(stringSchema())).toEqual({ type: "string" });
+    expect(toJsonSchema(isString)).toEqual({});
+  });
+});
+
+describe("Schema - Composites", () => {
+  it("objectSchema - infers object types with optional properties", () => {
+    expectTypeOf<GuardType<typeof isUser>>().toEqualTypeOf<{
+      id: string;
+      nick?: string | undefined;
+      role: "admin" | "member";
+      tags: string[];
+    }>();
+    expect(true).toBe(true);
+  });
+
+  it("objectSchema - describes objects with their required keys", () => {
+    expect(isUser.schema).toEqual({
+      description: "A user",
+      properties: {
+        id: { format: "uuid", type: "string" },
+        nick: { maxLength: 3, type: "string" },
+        role: { enum: ["admin", "member"] },
+        tags: { items: { type: "string" }, type: "array" },
+      },
+      required: ["id", "role", "tags"],
+      type: "object",
+    });
+  });
+
+  it("objectSchema / arraySchema / unionSchema - check values at runtime", () => {
+    expect(isUser({ id: "1", role: "admin", tags: [] })).toBe(true);
+    expect(isUser({ id: "1", nick: "toolong", role: "admin", tags: [] })).toBe(false);
+    expect(isUser({ id: "1", role: "admin", tags: [1] })).toBe(false);
+    const isId = unionSchema(stringSchema(), integerSchema());
+    expectTypeOf(isId).toEqualTypeOf<Schema<string | number>>();
+    expect(isId.schema).toEqual({ anyOf: [{ type: "string" }, { type: "integer" }] });
+    expect([isId("a"), isId(1), isId(1.5)]).toEqual([true, true, false]);
+  });
+});
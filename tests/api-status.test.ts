@@ -0,0 +1,81 @@
+import { describe, expect, it } from "bun:test";
+import type {
+  ClientErrorStatus,
+  InformationalStatus,
+  RedirectStatus,
+  ServerErrorStatus,
+  StatusCode,
+  StatusText,
+  SuccessStatus,
+} from "../src/api";
+import {
+  isClientErrorStatus,
+  isInformationalStatus,
+  isRedirectStatus,
+  isServerErrorStatus,
+  isStatusCode,
+  isSuccessStatus,
+  statusText,
+} from "../src/api";
+import { expectTypeOf } from "../src/guard";
+
+describe("Status Codes - Types", () => {
+  it("StatusCode - covers the IANA registry", () => {
+    expectTypeOf<100 | 203 | 418 | 423 | 451 | 505>().toMatchTypeOf<StatusCode>();
+    expectTypeOf<InformationalStatus>().toEqualTypeOf<100 | 101 | 102 | 103>();
+    expectTypeOf<ServerErrorStatus>().toEqualTypeOf<
+      500 | 501 | 502 | 503 | 504 | 505 | 506 | 507 | 508 | 510 | 511
+    >();
+    expect(Object.keys(statusText)).toHaveLength(62);
+  });
+
+  it("Status classes - partition the registry", () => {
+    expectTypeOf<
+      InformationalStatus | SuccessStatus | RedirectStatus | ClientErrorStatus | ServerErrorStatus
+    >().toEqualTypeOf<StatusCode>();
+    expectTypeOf<200 | 204 | 226>().toMatchTypeOf<SuccessStatus>();
+    expectTypeOf<301 | 308>().toMatchTypeOf<RedirectStatus>();
+    expectTypeOf<404 | 418 | 451>().toMatchTypeOf<ClientErrorStatus>();
+    expect(true).toBe(true);
+  });
+
+  it("StatusText - is the literal reason phrase", () => {
+    expectTypeOf<StatusText<404>>().toEqualTypeOf<"Not Found">();
+    expectTypeOf(statusText[418]).toEqualTypeOf<"I'm a teapot">();
+    expect(statusText[404]).toBe("Not Found");
+    expect(statusText[203]).toBe("Non-Authoritative Information");
+  });
+});
+
+describe("Status Codes - Guards", () => {
+  it("isStatusCode - accepts registered codes only", () => {
+    expect(isStatusCode(200)).toBe(true);
+    expect(isStatusCode(299)).toBe(false);
+    expect(isStatusCode(306)).toBe(false);
+  });
+
+  it("Status class guards - check the class", () => {
+    expect(isInformationalStatus(100)).toBe(true);
+    expect(isSuccessStatus(204)).toBe(true);
+    expect(isSuccessStatus(404)).toBe(false);
+    expect(isSuccessStatus(250)).toBe(false);
+    expect(isRedirectStatus(307)).toBe(true);
+    expect(isClientErrorStatus(429)).toBe(true);
+    expect(isServerErrorStatus(503)).toBe(true);
+    expect(isServerErrorStatus(404)).toBe(false);
+  });
+
+  it("Status class guards - narrow numbers and status unions", () => {
+    const status = 201 as number;
+    if (isSuccessStatus(status)) {
+      expectTypeOf(status).toEqualTypeOf<SuccessStatus>();
+    }
+    const code = 404 as 200 | 404 | 500;
+    if (isClientErrorStatus(code)) {
+      expectTypeOf(code).toEqualTypeOf<404>();
+    } else {
+      expectTypeOf(code).toEqualTypeOf<200 | 500>();
+    }
+    expect(isSuccessStatus(status)).toBe(true);
+  });
+});
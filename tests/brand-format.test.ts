@@ -0,0 +1,127 @@
+import { describe, it, expect } from "bun:test";
+import type {
+  Brand,
+  HasBrand,
+  IsoDate,
+  HexColor,
+  SemVer,
+  Slug,
+  Ipv4,
+  IsIsoDate,
+  IsSemVer,
+  IsSlug,
+} from "../src/brand";
+import {
+  BrandError,
+  asIsoDate,
+  asHexColor,
+  asSemVer,
+  asSlug,
+  asIpv4,
+  isIsoDate,
+  isHexColor,
+  isSemVer,
+  isSlug,
+  isIpv4,
+  parseIsoDate,
+} from "../src/brand";
+import type { AssertTrue, AssertFalse } from "../src/guard";
+
+describe("Format Brands - Compile-time Literals", () => {
+  it("asIsoDate - accepts valid calendar dates only", () => {
+    const date: IsoDate = asIsoDate("2024-02-29");
+    // @ts-expect-error - month 13 does not exist
+    expect(() => asIsoDate("2024-13-01")).toThrow(BrandError);
+    // @ts-expect-error - April has 30 days
+    expect(() => asIsoDate("2024-04-31")).toThrow(BrandError);
+    // @ts-expect-error - 2023 is not a leap year
+    expect(() => asIsoDate("2023-02-29")).toThrow(BrandError);
+    expect<string>(date).toBe("2024-02-29");
+  });
+
+  it("asHexColor / asSemVer - reject malformed literals", () => {
+    const color: HexColor = asHexColor("#ff8800aa");
+    const version: SemVer = asSemVer("1.4.0-beta.2+build.7");
+    // @ts-expect-error - five hex digits is not a valid color
+    expect(() => asHexColor("#ff880")).toThrow(BrandError);
+    // @ts-expect-error - leading zeros are not allowed
+    expect(() => asSemVer("01.4.0")).toThrow(BrandError);
+    expect<string>(color).toBe("#ff8800aa");
+    expect<string>(version).toBe("1.4.0-beta.2+build.7");
+  });
+
+  it("asSlug / asIpv4 - reject malformed literals", () => {
+    const slug: Slug = asSlug("hello-world-2");
+    const address: Ipv4 = asIpv4("192.168.0.1");
+    // @ts-expect-error - double hyphens are not allowed
+    expect(() => asSlug("hello--world")).toThrow(BrandError);
+    // @ts-expect-error - octets stop at 255
+    expect(() => asIpv4("256.0.0.1")).toThrow(BrandError);
+    expect<string>(slug).toBe("hello-world-2");
+    expect<string>(address).toBe("192.168.0.1");
+  });
+
+  it("as* - rejects non-literal strings", () => {
+    const input: string = "2024-01-01";
+    // @ts-expect-error - widened strings must go through the runtime guard
+    expect<string>(asIsoDate(input)).toBe(input);
+  });
+
+  it("Is* - check literals at the type level", () => {
+    type _Test1 = AssertTrue<IsIsoDate<"2024-02-29">>;
+    type _Test2 = AssertFalse<IsIsoDate<"2024-02-30">>;
+    type _Test3 = AssertTrue<IsSemVer<"1.0.0-alpha-1.x+001">>;
+    type _Test4 = AssertFalse<IsSemVer<"1.4">>;
+    type _Test5 = AssertFalse<IsSlug<"Hello-World">>;
+    expect(true).toBe(true);
+  });
+});
+
+describe("Format Brands - Calendar Dates", () => {
+  it("IsIsoDate - accepts Feb 29 in leap years only", () => {
+    type _Test1 = AssertFalse<IsIsoDate<"2023-02-29">>;
+    type _Test2 = AssertTrue<IsIsoDate<"2400-02-29">>;
+    type _Test3 = AssertFalse<IsIsoDate<"2100-02-29">>;
+    type _Test4 = AssertTrue<IsIsoDate<"1996-02-29">>;
+    expect(true).toBe(true);
+  });
+
+  it("asIsoDate - agrees with the runtime check for leap years and early years", () => {
+    expect<string>(asIsoDate("0050-01-01")).toBe("0050-01-01");
+    expect<string>(asIsoDate("2000-02-29")).toBe("2000-02-29");
+    expect<string>(asIsoDate("0000-02-29")).toBe("0000-02-29");
+    // @ts-expect-error - 1900 is not a leap year
+    expect(() => asIsoDate("1900-02-29")).toThrow(BrandError);
+    expect(isIsoDate("0004-02-29")).toBe(true);
+    expect(isIsoDate("0099-12-31")).toBe(true);
+  });
+});
+
+describe("Format Brands - Runtime Guards", () => {
+  it("isIsoDate - validates real calendar dates", () => {
+    expect(isIsoDate("2024-02-29")).toBe(true);
+    expect(isIsoDate("2023-02-29")).toBe(false);
+    expect(isIsoDate("2024-1-01")).toBe(false);
+    expect(() => parseIsoDate("yesterday")).toThrow(
+      'Invalid IsoDate: expected an ISO 8601 date (YYYY-MM-DD), received "yesterday"',
+    );
+  });
+
+  it("isHexColor / isSemVer / isSlug / isIpv4 - validate runtime input", () => {
+    expect(isHexColor("#FFF")).toBe(true);
+    expect(isHexColor("fff")).toBe(false);
+    expect(isSemVer("10.20.30")).toBe(true);
+    expect(isSemVer("1.2.3-")).toBe(false);
+    expect(isSlug("post-42")).toBe(true);
+    expect(isSlug("post_42")).toBe(false);
+    expect(isIpv4("10.0.0.255")).toBe(true);
+    expect(isIpv4("10.0.0.01")).toBe(false);
+  });
+
+  it("Format brands - mix with other brands", () => {
+    type TaggedDate = Brand<IsoDate, "Birthday">;
+    type _Test1 = AssertTrue<HasBrand<TaggedDate, "IsoDate">>;
+    type _Test2 = AssertTrue<HasBrand<TaggedDate, "Birthday">>;
+    expect(true).toBe(true);
+  });
+});
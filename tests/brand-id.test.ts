@@ -0,0 +1,54 @@
+import { describe, it, expect } from "bun:test";
+import type { Id, PrefixedId } from "../src/brand";
+import { BrandError, definePrefixedId, ulid } from "../src/brand";
+
+const UserId = definePrefixedId("user");
+const PostId = definePrefixedId("post");
+
+describe("Prefixed IDs - Types", () => {
+  it("PrefixedId - is a template-literal string that also satisfies Id<T>", () => {
+    const id: PrefixedId<"user"> = UserId.generate();
+    const legacy: Id<"user"> = id;
+    const raw: `user_${string}` = id;
+    expect(raw.startsWith("user_")).toBe(true);
+    expect<string>(legacy).toBe(raw);
+  });
+
+  it("PrefixedId - rejects IDs with another prefix or unchecked strings", () => {
+    const post = PostId.generate();
+    // @ts-expect-error - a post ID is not a user ID
+    const _user: PrefixedId<"user"> = post;
+    // @ts-expect-error - plain strings must go through parse or generate
+    const _unchecked: PrefixedId<"user"> = "user_01J9Z3K4Q8X7V6T5R4P3N2M1B0";
+    expect(true).toBe(true);
+  });
+});
+
+describe("Prefixed IDs - Runtime", () => {
+  it("ulid - produces 26 sortable Crockford base32 characters", () => {
+    const first = ulid(1_700_000_000_000);
+    const second = ulid(1_700_000_000_000);
+    const later = ulid(1_700_000_000_001);
+    expect(first).toMatch(/^[0-9A-HJKMNP-TV-Z]{26}$/);
+    expect(first.slice(0, 10)).toBe("01HF7YAT00");
+    expect(first < second).toBe(true);
+    expect(second < later).toBe(true);
+    expect(() => ulid(-1)).toThrow(RangeError);
+  });
+
+  it("generate / parse - round-trip IDs with the right prefix", () => {
+    const id = UserId.generate();
+    expect(UserId.parse(id)).toBe(id);
+    expect(UserId.is(id)).toBe(true);
+    expect(UserId.prefix).toBe("user");
+  });
+
+  it("parse - rejects other prefixes and malformed IDs", () => {
+    const post = PostId.generate();
+    expect(UserId.is(post)).toBe(false);
+    expect(UserId.is("user_not-a-ulid")).toBe(false);
+    expect(UserId.is("user_81J9Z3K4Q8X7V6T5R4P3N2M1B0")).toBe(false);
+    expect(() => UserId.parse(post)).toThrow(BrandError);
+    expect(() => UserId.parse(post)).toThrow(`Invalid user:id: expected a "user_" prefixed ULID, received "${post}"`);
+  });
+});
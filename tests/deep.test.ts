@@ -9,7 +9,10 @@ import type {
   DeepNonNullable,
   DeepKeys,
   DeepValue,
+  DeepExact,
 } from "../src/deep";
+import type { TypeErrorMessage } from "../src/diagnostics";
+import type { AssertTrue, IsEqual } from "../src/guard";
 
 describe("Deep Types - Picking & Omitting", () => {
   it("DeepPick - picks nested properties", () => {
@@ -84,3 +87,23 @@ describe("Deep Types - Analysis", () => {
     expect(typeof city).toBe("string");
   });
 });
+
+describe("Deep Types - Exactness", () => {
+  type Shape = { name: string; address: { city: string }; tags: { id: string }[] };
+
+  it("DeepExact - returns the type when shapes match", () => {
+    type Input = { name: string; address: { city: string }; tags: { id: string }[] };
+    type _Test = AssertTrue<IsEqual<DeepExact<Input, Shape>, Input>>;
+    expect(true).toBe(true);
+  });
+
+  it("DeepExact - names the offending path on mismatch", () => {
+    type Extra = DeepExact<{ name: string; address: { city: string; zip: string }; tags: { id: string }[] }, Shape>;
+    type Missing = DeepExact<{ name: string; address: Record<never, never>; tags: { id: string }[] }, Shape>;
+    type Wrong = DeepExact<{ name: string; address: { city: string }; tags: { id: number }[] }, Shape>;
+    type _Test1 = AssertTrue<IsEqual<Extra, TypeErrorMessage<"Extra key 'address.zip' not allowed in Shape">>>;
+    type _Test2 = AssertTrue<IsEqual<Missing, TypeErrorMessage<"Missing key 'address.city' required by Shape">>>;
+    type _Test3 = AssertTrue<IsEqual<Wrong, TypeErrorMessage<"Key 'tags[number].id' does not match Shape">>>;
+    expect(true).toBe(true);
+  });
+});
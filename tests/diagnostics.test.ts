@@ -0,0 +1,38 @@
+import { describe, it, expect } from "bun:test";
+import type { TypeErrorMessage, IsTypeError, TypeErrorMessageOf, JoinPath, ShapeMismatch } from "../src/diagnostics";
+import type { AssertTrue, AssertFalse, IsEqual } from "../src/guard";
+
+describe("Diagnostic Types - Messages", () => {
+  it("TypeErrorMessage - rejects every ordinary value", () => {
+    // @ts-expect-error - a message type cannot be produced by a plain object
+    const error: TypeErrorMessage<"Oops"> = { message: "Oops" };
+    expect(error).toBeDefined();
+  });
+
+  it("IsTypeError / TypeErrorMessageOf - inspect messages", () => {
+    type _Test1 = AssertTrue<IsTypeError<TypeErrorMessage<"Oops">>>;
+    type _Test2 = AssertFalse<IsTypeError<string>>;
+    type _Test3 = AssertFalse<IsTypeError<never>>;
+    type _Test4 = AssertTrue<IsEqual<TypeErrorMessageOf<TypeErrorMessage<"Oops">>, "Oops">>;
+    expect(true).toBe(true);
+  });
+});
+
+describe("Diagnostic Types - Shapes", () => {
+  it("JoinPath - builds dotted paths", () => {
+    type _Test1 = AssertTrue<IsEqual<JoinPath<"", "address">, "address">>;
+    type _Test2 = AssertTrue<IsEqual<JoinPath<"address", "city">, "address.city">>;
+    expect(true).toBe(true);
+  });
+
+  it("ShapeMismatch - reports extra and missing keys", () => {
+    type _Test1 = AssertTrue<IsEqual<ShapeMismatch<{ a: 1 }, { a: 2 }>, never>>;
+    type _Test2 = AssertTrue<
+      IsEqual<ShapeMismatch<{ a: 1; foo: 2 }, { a: 1 }>, TypeErrorMessage<"Extra key 'foo' not allowed in Shape">>
+    >;
+    type _Test3 = AssertTrue<
+      IsEqual<ShapeMismatch<{ a: 1 }, { a: 1; b: 2 }, "user">, TypeErrorMessage<"Missing key 'user.b' required by Shape">>
+    >;
+    expect(true).toBe(true);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from "bun:test";
+import type { AssertTrue, IsEqual, Guard, GuardType } from "../src/guard";
+import {
+  isString,
+  isNumber,
+  isBoolean,
+  isNull,
+  isRecord,
+  isArrayOf,
+  isTupleOf,
+  isLiteral,
+  isUnionOf,
+  isOptional,
+  isObjectOf,
+} from "../src/guard";
+
+describe("Runtime Guards - Primitives", () => {
+  it("isString / isNumber / isBoolean / isNull - check typeof", () => {
+    expect(isString("a")).toBe(true);
+    expect(isString(1)).toBe(false);
+    expect(isNumber(1)).toBe(true);
+    expect(isNumber("1")).toBe(false);
+    expect(isBoolean(false)).toBe(true);
+    expect(isNull(null)).toBe(true);
+    expect(isNull("null")).toBe(false);
+  });
+
+  it("isRecord - accepts plain objects only", () => {
+    expect(isRecord({ a: 1 })).toBe(true);
+    expect(isRecord([])).toBe(false);
+    expect(isRecord(null)).toBe(false);
+  });
+
+  it("narrows unknown values", () => {
+    const input: unknown = "hello";
+    if (isString(input)) {
+      const value: string = input;
+      expect(value.length).toBe(5);
+    }
+  });
+});
+
+describe("Runtime Guards - Combinators", () => {
+  it("isArrayOf / isTupleOf - check every item", () => {
+    const isTags = isArrayOf(isString);
+    const isPoint = isTupleOf(isNumber, isNumber);
+    type _Test1 = AssertTrue<IsEqual<GuardType<typeof isTags>, string[]>>;
+    type _Test2 = AssertTrue<IsEqual<GuardType<typeof isPoint>, [number, number]>>;
+    expect(isTags(["a", "b"])).toBe(true);
+    expect(isTags(["a", 1])).toBe(false);
+    expect(isPoint([1, 2])).toBe(true);
+    expect(isPoint([1, 2, 3])).toBe(false);
+    expect(isPoint([1, "2"])).toBe(false);
+  });
+
+  it("isLiteral / isUnionOf - match one of several options", () => {
+    const isRole = isLiteral("admin", "member");
+    const isId = isUnionOf(isString, isNumber);
+    type _Test1 = AssertTrue<IsEqual<GuardType<typeof isRole>, "admin" | "member">>;
+    type _Test2 = AssertTrue<IsEqual<GuardType<typeof isId>, string | number>>;
+    expect(isRole("admin")).toBe(true);
+    expect(isRole("guest")).toBe(false);
+    expect(isId(1)).toBe(true);
+    expect(isId(true)).toBe(false);
+  });
+
+  it("isObjectOf / isOptional - infer required and optional keys", () => {
+    const isUser = isObjectOf({
+      id: isString,
+      role: isLiteral("admin", "member"),
+      nick: isOptional(isString),
+      tags: isArrayOf(isString),
+    });
+    type User = GuardType<typeof isUser>;
+    type Expected = { id: string; role: "admin" | "member"; nick?: string | undefined; tags: string[] };
+    type _Test = AssertTrue<IsEqual<User, Expected>>;
+    expect(isUser({ id: "1", role: "admin", tags: [] })).toBe(true);
+    expect(isUser({ id: "1", role: "admin", nick: "jd", tags: ["a"], extra: true })).toBe(true);
+    expect(isUser({ id: "1", role: "admin", nick: 1, tags: [] })).toBe(false);
+    expect(isUser({ id: "1", tags: [] })).toBe(false);
+    expect(isUser("user")).toBe(false);
+  });
+
+  it("Guard - composes with hand-written guards", () => {
+    const isPositive: Guard<number> = (value): value is number => isNumber(value) && value > 0;
+    const isScores = isArrayOf(isPositive);
+    expect(isScores([1, 2])).toBe(true);
+    expect(isScores([1, -2])).toBe(false);
+  });
+});
@@ -6,9 +6,30 @@ import type {
   IsTuple,
   IsLiteral,
   IsExact,
+  IsEqual,
+  IsNotAny,
+  IsStringLiteral,
+  IsNumberLiteral,
+  IsBooleanLiteral,
+  IsTemplateLiteral,
+  IsNull,
+  IsUndefined,
+  IsFunction,
+  IsPlainObject,
+  IsEmptyObject,
+  IsOptionalKey,
+  IsReadonlyKey,
+  Not,
+  And,
+  Or,
+  Xor,
+  All,
+  Any,
+  If,
   AssertTrue,
   AssertFalse,
 } from "../src/guard";
+import { expectTypeOf } from "../src/guard";
 
 describe("Guard Types - Type Checks", () => {
   it("IsNever - detects never type", () => {
@@ -61,6 +82,127 @@ describe("Guard Types - Literal Detection", () => {
   });
 });
 
+describe("Guard Types - Literal Kinds", () => {
+  it("IsLiteral - rejects wide primitives and template patterns", () => {
+    type _Test1 = AssertFalse<IsLiteral<string>>;
+    type _Test2 = AssertFalse<IsLiteral<number>>;
+    type _Test3 = AssertTrue<IsLiteral<1 | 2>>;
+    type _Test4 = AssertTrue<IsLiteral<true>>;
+    type _Test5 = AssertFalse<IsLiteral<`id_${number}`>>;
+    type _Test6 = AssertFalse<IsLiteral<any>>;
+    expect(true).toBe(true);
+  });
+
+  it("IsLiteral - accepts unions mixing literal kinds", () => {
+    type _Test1 = AssertTrue<IsLiteral<"a" | 1>>;
+    type _Test2 = AssertTrue<IsLiteral<"a" | 1n | false>>;
+    type _Test3 = AssertFalse<IsLiteral<"a" | number>>;
+    type _Test4 = AssertFalse<IsLiteral<boolean | 1>>;
+    type _Test5 = AssertFalse<IsLiteral<"a" | null>>;
+    type _Test6 = AssertFalse<IsLiteral<never>>;
+    expect(true).toBe(true);
+  });
+
+  it("IsStringLiteral / IsTemplateLiteral - separate plain and pattern literals", () => {
+    type _Test1 = AssertTrue<IsStringLiteral<"a" | "b">>;
+    type _Test2 = AssertFalse<IsStringLiteral<`user_${string}`>>;
+    type _Test3 = AssertFalse<IsStringLiteral<"a" | `b${string}`>>;
+    type _Test4 = AssertTrue<IsTemplateLiteral<`user_${string}`>>;
+    type _Test5 = AssertFalse<IsTemplateLiteral<"user_1">>;
+    type _Test6 = AssertFalse<IsTemplateLiteral<string>>;
+    type _Test7 = AssertFalse<IsTemplateLiteral<never>>;
+    expect(true).toBe(true);
+  });
+
+  it("IsNumberLiteral / IsBooleanLiteral - separate literals from wide types", () => {
+    type _Test1 = AssertTrue<IsNumberLiteral<1>>;
+    type _Test2 = AssertFalse<IsNumberLiteral<number>>;
+    type _Test3 = AssertTrue<IsBooleanLiteral<false>>;
+    type _Test4 = AssertFalse<IsBooleanLiteral<boolean>>;
+    expect(true).toBe(true);
+  });
+});
+
+describe("Guard Types - Shapes", () => {
+  it("IsNull / IsUndefined / IsFunction - are safe for any and unknown", () => {
+    type _Test1 = AssertTrue<IsNull<null>>;
+    type _Test2 = AssertFalse<IsNull<any>>;
+    type _Test3 = AssertFalse<IsUndefined<unknown>>;
+    type _Test4 = AssertFalse<IsUndefined<string | undefined>>;
+    type _Test5 = AssertTrue<IsFunction<(x: string) => void>>;
+    type _Test6 = AssertFalse<IsFunction<any>>;
+    expect(true).toBe(true);
+  });
+
+  it("IsPlainObject / IsEmptyObject - check object shapes", () => {
+    type _Test1 = AssertTrue<IsPlainObject<{ a: string }>>;
+    type _Test2 = AssertFalse<IsPlainObject<string[]>>;
+    type _Test3 = AssertFalse<IsPlainObject<() => void>>;
+    type _Test4 = AssertTrue<IsEmptyObject<Record<never, never>>>;
+    type _Test5 = AssertFalse<IsEmptyObject<{ a?: string }>>;
+    type _Test6 = AssertFalse<IsEmptyObject<Record<string, never>>>;
+    expect(true).toBe(true);
+  });
+
+  it("IsOptionalKey / IsReadonlyKey - inspect key modifiers", () => {
+    type User = { readonly id: string; nick?: string; name: string };
+    type _Test1 = AssertTrue<IsOptionalKey<User, "nick">>;
+    type _Test2 = AssertFalse<IsOptionalKey<User, "name">>;
+    type _Test3 = AssertTrue<IsReadonlyKey<User, "id">>;
+    type _Test4 = AssertFalse<IsReadonlyKey<User, "nick">>;
+    expect(true).toBe(true);
+  });
+});
+
+describe("Guard Types - Boolean Algebra", () => {
+  it("Not / And / Or / Xor - compose predicate results", () => {
+    type _Test1 = AssertTrue<And<IsNever<never>, Not<IsAny<string>>>>;
+    type _Test2 = AssertTrue<Or<IsNull<string>, IsTuple<[1]>>>;
+    type _Test3 = AssertFalse<Xor<IsNever<never>, IsAny<any>>>;
+    type _Test4 = AssertTrue<Xor<true, false>>;
+    expect(true).toBe(true);
+  });
+
+  it("boolean - propagates unless the other operand decides", () => {
+    type _Test1 = AssertTrue<IsEqual<Not<boolean>, boolean>>;
+    type _Test2 = AssertFalse<And<false, boolean>>;
+    type _Test3 = AssertTrue<IsEqual<And<true, boolean>, boolean>>;
+    type _Test4 = AssertTrue<Or<true, boolean>>;
+    type _Test5 = AssertTrue<IsEqual<Xor<true, boolean>, boolean>>;
+    expect(true).toBe(true);
+  });
+
+  it("never - counts as false", () => {
+    type _Test1 = AssertTrue<Not<never>>;
+    type _Test2 = AssertFalse<And<never, true>>;
+    type _Test3 = AssertFalse<Or<never, never>>;
+    type _Test4 = AssertTrue<IsEqual<If<never, "a", "b">, "b">>;
+    expect(true).toBe(true);
+  });
+
+  it("All / Any / If - fold tuples and branch on results", () => {
+    type _Test1 = AssertTrue<All<[true, IsNever<never>, IsAny<any>]>>;
+    type _Test2 = AssertFalse<All<[true, false]>>;
+    type _Test3 = AssertTrue<All<[]>>;
+    type _Test4 = AssertTrue<Any<[false, IsTuple<[1]>]>>;
+    type _Test5 = AssertFalse<Any<[]>>;
+    type _Test6 = AssertTrue<IsEqual<If<IsNever<never>, "empty", "filled">, "empty">>;
+    type _Test7 = AssertTrue<IsEqual<If<boolean, "a", "b">, "a" | "b">>;
+    expect(true).toBe(true);
+  });
+
+  it("All / Any - give boolean for arrays of unknown length", () => {
+    type _Test1 = AssertTrue<IsEqual<All<false[]>, boolean>>;
+    type _Test2 = AssertTrue<IsEqual<Any<true[]>, boolean>>;
+    type _Test3 = AssertTrue<IsEqual<All<[true, ...false[]]>, boolean>>;
+    // @ts-expect-error - an array of false values may not be empty
+    type _Test4 = AssertTrue<All<false[]>>;
+    // @ts-expect-error - an array of true values may be empty
+    type _Test5 = AssertFalse<Any<true[]>>;
+    expect(true).toBe(true);
+  });
+});
+
 describe("Guard Types - Assertions", () => {
   it("AssertTrue - asserts true types", () => {
     type Check = AssertTrue<true>;
@@ -74,3 +216,51 @@ describe("Guard Types - Assertions", () => {
     expect(true).toBe(true);
   });
 });
+
+describe("Guard Types - Strict Equality", () => {
+  it("IsEqual - distinguishes any, readonly and optional properties", () => {
+    type _Test1 = AssertTrue<IsEqual<{ a: string }, { a: string }>>;
+    type _Test2 = AssertFalse<IsEqual<any, string>>;
+    type _Test3 = AssertFalse<IsEqual<{ readonly a: string }, { a: string }>>;
+    type _Test4 = AssertFalse<IsEqual<{ a?: string }, { a: string | undefined }>>;
+    type _Test5 = AssertTrue<IsExact<any, string>>;
+    expect(true).toBe(true);
+  });
+
+  it("IsNotAny - rejects any only", () => {
+    type _Test1 = AssertTrue<IsNotAny<unknown>>;
+    type _Test2 = AssertTrue<IsNotAny<never>>;
+    type _Test3 = AssertFalse<IsNotAny<any>>;
+    expect(true).toBe(true);
+  });
+});
+
+const format = (value: string, width?: number): string => value.padStart(width ?? 0);
+
+describe("Guard Types - expectTypeOf", () => {
+  it("toEqualTypeOf - requires identical types", () => {
+    expectTypeOf<{ id: string }>().toEqualTypeOf<{ id: string }>();
+    // @ts-expect-error - any is not equal to string
+    expectTypeOf<any>().toEqualTypeOf<string>();
+    // @ts-expect-error - readonly differs
+    expectTypeOf<{ readonly id: string }>().toEqualTypeOf<{ id: string }>();
+    expect(expectTypeOf("a").toEqualTypeOf<string>()).toBe(true);
+  });
+
+  it("toMatchTypeOf - requires assignability", () => {
+    expectTypeOf({ id: "1", name: "Jane" }).toMatchTypeOf<{ id: string }>();
+    // @ts-expect-error - number is not assignable to string
+    expectTypeOf<number>().toMatchTypeOf<string>();
+    // @ts-expect-error - any only matches any
+    expectTypeOf<any>().toMatchTypeOf<string>();
+    expect(expectTypeOf<1>().toMatchTypeOf<number>()).toBe(true);
+  });
+
+  it("parameters / returns - inspect function types", () => {
+    expectTypeOf(format).parameters.toEqualTypeOf<[string, number?]>();
+    expectTypeOf(format).returns.toEqualTypeOf<string>();
+    // @ts-expect-error - the return type is string
+    expectTypeOf(format).returns.toEqualTypeOf<number>();
+    expect(expectTypeOf(format).returns.toMatchTypeOf<string>()).toBe(true);
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it } from "bun:test";
+import path from "node:path";
+import ts from "typescript";
+
+const ROOT = path.resolve(import.meta.dir, "../..");
+const ASSERTION_TYPES = new Set(["AssertTrue", "AssertFalse"]);
+const EXPECT_METHODS = new Set(["toEqualTypeOf", "toMatchTypeOf"]);
+const UNUSED_EXPECT_ERROR = 2578;
+
+/**
+ * One compile-time assertion found in a source file, with the type errors it produced.
+ */
+export type TypeAssertion = {
+  kind: "AssertTrue" | "AssertFalse" | "expectTypeOf" | "@ts-expect-error";
+  name: string;
+  location: string;
+  errors: string[];
+};
+
+/**
+ * Compile-time assertions of one source file, plus type errors outside any assertion.
+ */
+export type TypeAssertionReport = {
+  file: string;
+  assertions: TypeAssertion[];
+  otherErrors: string[];
+};
+
+const loadCompilerOptions = (): ts.CompilerOptions => {
+  const configPath = ts.findConfigFile(ROOT, (file) => ts.sys.fileExists(file));
+  if (!configPath) {
+    throw new Error(`No tsconfig.json found in ${ROOT}`);
+  }
+  const { config } = ts.readConfigFile(configPath, (file) => ts.sys.readFile(file));
+  return ts.parseJsonConfigFileContent(config, ts.sys, path.dirname(configPath)).options;
+};
+
+const formatLocation = (sourceFile: ts.SourceFile, position: number): string => {
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(position);
+  return `${path.relative(ROOT, sourceFile.fileName)}:${line + 1}:${character + 1}`;
+};
+
+const formatDiagnostic = (diagnostic: ts.Diagnostic): string =>
+  ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n");
+
+const enclosingTestName = (node: ts.Node): string | undefined => {
+  for (let current = node.parent; current; current = current.parent) {
+    if (
+      ts.isCallExpression(current) &&
+      ts.isIdentifier(current.expression) &&
+      ["it", "test"].includes(current.expression.text) &&
+      current.arguments[0] &&
+      ts.isStringLiteralLike(current.arguments[0])
+    ) {
+      return current.arguments[0].text;
+    }
+  }
+  return undefined;
+};
+
+const assertionName = (node: ts.Node, label: string): string => {
+  const alias = ts.findAncestor(node, ts.isTypeAliasDeclaration);
+  const subject = alias ? `${label} in ${alias.name.text}` : label;
+  const test = enclosingTestName(node);
+  return test ? `${test} › ${subject}` : subject;
+};
+
+const collectNodes = (sourceFile: ts.SourceFile): { node: ts.Node; kind: TypeAssertion["kind"] }[] => {
+  const found: { node: ts.Node; kind: TypeAssertion["kind"] }[] = [];
+  const visit = (node: ts.Node): void => {
+    if (ts.isTypeReferenceNode(node) && ts.isIdentifier(node.typeName) && ASSERTION_TYPES.has(node.typeName.text)) {
+      found.push({ kind: node.typeName.text as "AssertTrue" | "AssertFalse", node });
+    } else if (
+      ts.isCallExpression(node) &&
+      ts.isPropertyAccessExpression(node.expression) &&
+      EXPECT_METHODS.has(node.expression.name.text)
+    ) {
+      found.push({ kind: "expectTypeOf", node });
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return found;
+};
+
+const nodeAt = (node: ts.Node, position: number): ts.Node =>
+  ts.forEachChild(node, (child) => (child.pos <= position && position < child.end ? nodeAt(child, position) : undefined)) ??
+  node;
+
+// Directives are read from the comment trivia before each token, so string and template text is never matched.
+const collectExpectErrorComments = (sourceFile: ts.SourceFile): number[] => {
+  const positions = new Set<number>();
+  const visit = (node: ts.Node): void => {
+    ts.forEachLeadingCommentRange(sourceFile.text, node.pos, (pos, end) => {
+      if (/^\/[/*]\s*@ts-expect-error/.test(sourceFile.text.slice(pos, end))) {
+        positions.add(pos);
+      }
+    });
+    for (const child of node.getChildren(sourceFile)) {
+      visit(child);
+    }
+  };
+  visit(sourceFile);
+  return [...positions].toSorted((a, b) => a - b);
+};
+
+const reportFor = (program: ts.Program, sourceFile: ts.SourceFile): TypeAssertionReport => {
+  const diagnostics = [...program.getSyntacticDiagnostics(sourceFile), ...program.getSemanticDiagnostics(sourceFile)];
+  const claimed = new Set<ts.Diagnostic>();
+  const claim = (matches: (diagnostic: ts.Diagnostic) => boolean): string[] =>
+    diagnostics.filter((diagnostic) => matches(diagnostic)).map((diagnostic) => {
+      claimed.add(diagnostic);
+      return formatDiagnostic(diagnostic);
+    });
+
+  const assertions: TypeAssertion[] = collectNodes(sourceFile).map(({ node, kind }) => {
+    const start = node.getStart(sourceFile);
+    return {
+      errors: claim(
+        (diagnostic) =>
+          diagnostic.code !== UNUSED_EXPECT_ERROR &&
+          diagnostic.start !== undefined &&
+          diagnostic.start >= start &&
+          diagnostic.start < node.getEnd(),
+      ),
+      kind,
+      location: formatLocation(sourceFile, start),
+      name: assertionName(node, kind === "expectTypeOf" ? node.getText(sourceFile) : `${kind}<…>`),
+    };
+  });
+
+  for (const position of collectExpectErrorComments(sourceFile)) {
+    const { line } = sourceFile.getLineAndCharacterOfPosition(position);
+    const node = nodeAt(sourceFile, sourceFile.getPositionOfLineAndCharacter(line + 1, 0));
+    assertions.push({
+      errors: claim(
+        (diagnostic) =>
+          diagnostic.code === UNUSED_EXPECT_ERROR &&
+          diagnostic.start !== undefined &&
+          sourceFile.getLineAndCharacterOfPosition(diagnostic.start).line === line,
+      ).map(() => "Expected a type error on the next line, but the line compiles"),
+      kind: "@ts-expect-error",
+      location: formatLocation(sourceFile, position),
+      name: assertionName(node, "@ts-expect-error"),
+    });
+  }
+
+  return {
+    assertions,
+    file: path.relative(ROOT, sourceFile.fileName),
+    otherErrors: diagnostics
+      .filter((diagnostic) => !claimed.has(diagnostic))
+      .map((diagnostic) => `${formatLocation(sourceFile, diagnostic.start ?? 0)} ${formatDiagnostic(diagnostic)}`),
+  };
+};
+
+/**
+ * Type-check files with the repo's tsconfig and report every compile-time assertion they contain.
+ * @example
+ * ```ts
+ * const [report] = checkTypeAssertions(["tests/deep.test.ts"]);
+ * report.assertions.filter((assertion) => assertion.errors.length > 0);
+ * ```
+ */
+export const checkTypeAssertions = (files: string[]): TypeAssertionReport[] => {
+  const fileNames = files.map((file) => path.resolve(ROOT, file));
+  const program = ts.createProgram(fileNames, loadCompilerOptions());
+  return fileNames.map((fileName) => {
+    const sourceFile = program.getSourceFile(fileName);
+    if (!sourceFile) {
+      throw new Error(`Cannot read ${fileName}`);
+    }
+    return reportFor(program, sourceFile);
+  });
+};
+
+/**
+ * Register one bun test per compile-time assertion, failing with the type errors and source location.
+ * @example
+ * ```ts
+ * describeTypeAssertions(["tests/union.test.ts", "tests/deep.test.ts"]);
+ * ```
+ */
+export const describeTypeAssertions = (files: string[]): void => {
+  for (const report of checkTypeAssertions(files)) {
+    describe(`Type assertions - ${report.file}`, () => {
+      for (const assertion of report.assertions) {
+        it(`${assertion.name} (${assertion.location})`, () => {
+          if (assertion.errors.length > 0) {
+            throw new Error(`${assertion.kind} failed at ${assertion.location}\n${assertion.errors.join("\n")}`);
+          }
+        });
+      }
+      it("compiles without type errors outside assertions", () => {
+        if (report.otherErrors.length > 0) {
+          throw new Error(report.otherErrors.join("\n"));
+        }
+      });
+    });
+  }
+};
@@ -16,7 +16,11 @@ import type {
   RenameKeys,
   ObjectPaths,
   ObjectPathValue,
+  Exact,
+  NoExtra,
 } from "../src/object";
+import type { TypeErrorMessage } from "../src/diagnostics";
+import type { AssertTrue, IsEqual } from "../src/guard";
 
 /* eslint-disable @oxlint/no-object-mutation */
 
@@ -151,3 +155,42 @@ describe("Object Types - Transformation", () => {
     expect(typeof city).toBe("string");
   });
 });
+
+describe("Object Types - Diagnostics", () => {
+  type Shape = { name: string; age: number };
+
+  it("Exact - names extra, missing and mismatched keys", () => {
+    type _Test1 = AssertTrue<IsEqual<Exact<Shape, Shape>, Shape>>;
+    type Extra = Exact<{ name: string; age: number; foo: boolean }, Shape>;
+    type Missing = Exact<{ name: string }, Shape>;
+    type Wrong = Exact<{ name: string; age: string }, Shape>;
+    type _Test2 = AssertTrue<IsEqual<Extra, TypeErrorMessage<"Extra key 'foo' not allowed in Shape">>>;
+    type _Test3 = AssertTrue<IsEqual<Missing, TypeErrorMessage<"Missing key 'age' required by Shape">>>;
+    type _Test4 = AssertTrue<IsEqual<Wrong, TypeErrorMessage<"Key 'age' does not match Shape">>>;
+    expect(true).toBe(true);
+  });
+
+  it("NoExtra - types extra properties as an error message", () => {
+    type Checked = NoExtra<{ name: string; foo?: number }, { name: string }>;
+    type _Test1 = AssertTrue<
+      IsEqual<Checked, { name: string; foo?: TypeErrorMessage<"Extra key 'foo' not allowed in Shape"> }>
+    >;
+    type _Test2 = AssertTrue<IsEqual<NoExtra<Shape, Shape>, Shape>>;
+    type Required = NoExtra<{ name: string; foo: number }, { name: string }>;
+    type _Test3 = AssertTrue<
+      IsEqual<Required, { name: string; foo: TypeErrorMessage<"Extra key 'foo' not allowed in Shape"> }>
+    >;
+    expect(true).toBe(true);
+  });
+
+  it("RenameKey - refuses to overwrite an existing key", () => {
+    type User = { firstName: string; age: number };
+    type Clash = RenameKey<User, "firstName", "age">;
+    type _Test = AssertTrue<
+      IsEqual<Clash, TypeErrorMessage<"Cannot rename 'firstName' to 'age': key 'age' already exists">>
+    >;
+    // @ts-expect-error - the clash is reported instead of silently returning User
+    const user: Clash = { firstName: "John", age: 30 };
+    expect<object>(user).toEqual({ firstName: "John", age: 30 });
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, afterAll } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { checkTypeAssertions, describeTypeAssertions } from "./helpers/type-assertions";
+
+const ROOT = path.resolve(import.meta.dir, "..");
+const files = [...new Bun.Glob("tests/*.test.ts").scanSync({ cwd: ROOT })].toSorted();
+
+describeTypeAssertions(files);
+
+describe("Type assertion runner", () => {
+  const directory = mkdtempSync(path.join(tmpdir(), "type-assertions-"));
+  const fixture = path.join(directory, "fixture.ts");
+  writeFileSync(
+    fixture,
+    [
+      `import type { AssertTrue, AssertFalse, IsEqual } from "${ROOT}/src/guard";`,
+      `import { expectTypeOf } from "${ROOT}/src/guard";`,
+      "type Passing = AssertTrue<IsEqual<string, string>>;",
+      "type Failing = AssertFalse<IsEqual<number, number>>;",
+      "// @ts-expect-error",
+      "const unused: string = 'compiles';",
+      "expectTypeOf<string>().toEqualTypeOf<number>();",
+      "const stray: number = 'not a number';",
+    ].join("\n"),
+  );
+  const [report] = checkTypeAssertions([fixture]);
+  afterAll(() => rmSync(directory, { force: true, recursive: true }));
+
+  it("reports passing and failing AssertTrue / AssertFalse with their location", () => {
+    const [passing, failing] = report?.assertions ?? [];
+    expect(passing?.errors).toEqual([]);
+    expect(failing?.name).toBe("AssertFalse<…> in Failing");
+    expect(failing?.location).toEndWith("fixture.ts:4:16");
+    expect(failing?.errors[0]).toContain("Type 'true' does not satisfy the constraint 'false'");
+  });
+
+  it("reports failing expectTypeOf calls and unused @ts-expect-error directives", () => {
+    const byKind = new Map(report?.assertions.map((assertion) => [assertion.kind, assertion]));
+    expect(byKind.get("expectTypeOf")?.errors).toHaveLength(1);
+    expect(byKind.get("@ts-expect-error")?.location).toEndWith("fixture.ts:5:1");
+    expect(byKind.get("@ts-expect-error")?.errors).toEqual([
+      "Expected a type error on the next line, but the line compiles",
+    ]);
+  });
+
+  it("reports type errors outside assertions separately", () => {
+    expect(report?.otherErrors).toHaveLength(1);
+    expect(report?.otherErrors[0]).toContain("fixture.ts:8:7");
+  });
+});
+
+describe("Type assertion runner - directives", () => {
+  const directory = mkdtempSync(path.join(tmpdir(), "type-assertions-"));
+  const fixture = path.join(directory, "strings.ts");
+  writeFileSync(
+    fixture,
+    [
+      'const text = "// @ts-expect-error";',
+      "const template = `${text} // @ts-expect-error`;",
+      "// @ts-expect-error - a real directive",
+      "const value: number = template;",
+    ].join("\n"),
+  );
+  const [report] = checkTypeAssertions([fixture]);
+  afterAll(() => rmSync(directory, { force: true, recursive: true }));
+
+  it("ignores @ts-expect-error text inside strings and templates", () => {
+    const directives = report?.assertions.filter(({ kind }) => kind === "@ts-expect-error");
+    expect(directives?.map(({ location }) => location.replace(/.*\//, ""))).toEqual(["strings.ts:3:1"]);
+    expect(directives?.[0]?.errors).toEqual([]);
+    expect(report?.otherErrors).toEqual([]);
+  });
+});